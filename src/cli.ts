@@ -7,6 +7,7 @@ import { dirname, join } from 'path'
 import {
   statusCommand,
   deployCommand,
+  cancelDeployCommand,
   portsCommand,
   doctorCommand,
   initCommand,
@@ -15,8 +16,18 @@ import {
   logsCommand,
   addCommand,
   upCommand,
+  rollbackCommand,
+  restartCommand,
+  migrateCommand,
 } from './commands/index.js'
 
+// Collect repeated --tag selectors
+function collectTags(value: string, previous: string[]): string[] {
+  return [...previous, value]
+}
+
+const TAG_HELP = 'Only apps with this tag (repeat to require several, "!tag" to exclude, "a,b" for either)'
+
 // Read version from package.json
 const __dirname = dirname(fileURLToPath(import.meta.url))
 const pkg = JSON.parse(readFileSync(join(__dirname, '..', 'package.json'), 'utf-8'))
@@ -30,15 +41,47 @@ program
 program
   .command('status')
   .description('Show status of all apps and engines')
+  .option('-t, --tag <selector>', TAG_HELP, collectTags, [])
   .action(statusCommand)
 
-// shyp deploy <name>
-program
-  .command('deploy <name>')
+// shyp deploy <name> | --all | --tag
+const deploy = program
+  .command('deploy [name]')
   .description('Deploy an app or engine')
+  .option('-a, --all', 'Deploy every app and engine, apps in dependency order')
+  .option('-t, --tag <selector>', TAG_HELP, collectTags, [])
   .option('-m, --module <module>', 'Deploy a specific engine module')
+  .option('-r, --ref <ref>', 'Deploy a branch, tag or commit instead of the configured branch')
+  .option('-f, --force', 'Rebuild even if the commit is already deployed')
+  .option('-p, --plan', 'Show what the deploy would do without running it')
+  .option('--artifact <file>', 'Deploy a prebuilt .tar.gz instead of building from git')
+  .option('--sha256 <hash>', 'Expected checksum of --artifact (default: read from <file>.sha256)')
+  .option('-w, --wait', 'Wait for a deploy already in progress instead of failing')
+  .option('-v, --verbose', 'Stream build output while deploying')
   .action(deployCommand)
 
+// shyp deploy cancel <name>
+deploy
+  .command('cancel <name>')
+  .description('Cancel a deploy in progress and restore the previous release')
+  .action(cancelDeployCommand)
+
+// shyp rollback <name>
+program
+  .command('rollback <name>')
+  .description('Roll an app back to a previous successful deployment')
+  .option('--to <deploymentId>', 'Roll back to a specific deployment')
+  .option('-w, --wait', 'Wait for a deploy already in progress instead of failing')
+  .action(rollbackCommand)
+
+// shyp migrate <engine>
+program
+  .command('migrate <engine>')
+  .description('Run database migrations for an engine without deploying')
+  .option('-m, --module <module>', 'Run the migrations for a module instead')
+  .option('-w, --wait', 'Wait for a deploy already in progress instead of failing')
+  .action(migrateCommand)
+
 // shyp ports
 program
   .command('ports')
@@ -71,10 +114,11 @@ program
   .option('-n, --dry-run', 'Show what would be done without making changes')
   .action(syncCommand)
 
-// shyp logs <name>
+// shyp logs <name> | --tag
 program
-  .command('logs <name>')
+  .command('logs [name]')
   .description('View deployment logs for an app')
+  .option('-t, --tag <selector>', TAG_HELP, collectTags, [])
   .option('-f, --follow', 'Follow log output')
   .option('-n, --lines <number>', 'Number of lines to show', '50')
   .action((name, options) => logsCommand(name, { ...options, lines: parseInt(options.lines) }))
@@ -84,6 +128,7 @@ program
   .command('add <name>')
   .description('Add a new app configuration')
   .option('-r, --repo <url>', 'Git repository URL')
+  .option('-b, --branch <branch>', 'Branch to deploy (default: main)')
   .option('-d, --domain <domain>', 'Domain name')
   .option('-t, --type <type>', 'App type (nextjs, node, static, script)')
   .option('-p, --port <port>', 'Port number')
@@ -93,7 +138,15 @@ program
 program
   .command('up')
   .description('Start all stopped apps')
+  .option('-t, --tag <selector>', TAG_HELP, collectTags, [])
   .action(upCommand)
 
+// shyp restart <name> | --tag
+program
+  .command('restart [name]')
+  .description('Restart the processes of an app or engine')
+  .option('-t, --tag <selector>', TAG_HELP, collectTags, [])
+  .action(restartCommand)
+
 // Parse arguments
 program.parse()
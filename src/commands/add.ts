@@ -5,10 +5,12 @@ import chalk from 'chalk'
 import { input, select, confirm } from '@inquirer/prompts'
 import { isInitialized, getAppConfigPath } from '../lib/config.js'
 import { allocatePort } from '../lib/state.js'
+import { detectRepoRuntime, describeRuntime, type DetectedRuntime } from '../lib/runtime.js'
 import { log } from '../utils/logger.js'
 
 interface AddOptions {
   repo?: string
+  branch?: string
   domain?: string
   type?: string
   port?: number
@@ -147,6 +149,23 @@ async function runWizard(name: string): Promise<{
   return { repo, domain: domain || undefined, email, type }
 }
 
+// Detect the runtime of a repo's branch (null if it can't be read)
+async function detectRuntime(repo: string, branch: string): Promise<DetectedRuntime | null> {
+  log.dim('Detecting runtime from the repository...')
+  try {
+    const detected = await detectRepoRuntime(repo, { branch })
+    if (detected) {
+      log.info(`Runtime: ${describeRuntime(detected)}`)
+    } else {
+      log.dim('No lockfile found, runtime will be detected on deploy')
+    }
+    return detected
+  } catch {
+    log.dim('Could not read the repository, runtime will be detected on deploy')
+    return null
+  }
+}
+
 export async function addCommand(name: string, options: AddOptions): Promise<void> {
   log.banner()
 
@@ -167,6 +186,7 @@ export async function addCommand(name: string, options: AddOptions): Promise<voi
   const hasOptions = options.repo || options.domain || options.type || options.port
 
   let repo = options.repo
+  const branch = options.branch || 'main'
   let domain = options.domain
   let type = options.type || 'nextjs'
   let email: string | undefined
@@ -188,7 +208,7 @@ export async function addCommand(name: string, options: AddOptions): Promise<voi
     name,
     description: `${name} application`,
     repo: repo || `git@github.com:YOUR_ORG/${name}.git`,
-    branch: 'main',
+    branch,
     path: `/var/www/${name}`,
     type,
     port,
@@ -202,13 +222,23 @@ export async function addCommand(name: string, options: AddOptions): Promise<voi
     config.ssl = { email }
   }
 
-  config.build = {
-    command: 'npm ci && npm run build',
-    timeout: 600,
-  }
-
-  config.start = {
-    command: 'npm start',
+  // Pre-fill commands for the repo's runtime; if the repo can't be read yet
+  // (e.g. no deploy key), leave it to be detected on the first deploy
+  const detected = repo ? await detectRuntime(repo, branch) : null
+  if (detected) {
+    config.runtime = detected.runtime
+    config.build = {
+      command: detected.commands.build,
+      timeout: 600,
+    }
+    config.start = {
+      command: detected.commands.start,
+    }
+  } else {
+    config.runtime = 'auto'
+    config.build = {
+      timeout: 600,
+    }
   }
 
   config.env = {
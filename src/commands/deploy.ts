@@ -1,11 +1,55 @@
-import { loadAppConfig, loadEngineConfig, isInitialized } from '../lib/config.js'
-import { deployApp, deployEngine, deployModule } from '../lib/deploy.js'
+import chalk from 'chalk'
+import { existsSync } from 'fs'
+import { resolve } from 'path'
+import type { Ora } from 'ora'
+import {
+  loadAppConfig,
+  loadAppConfigs,
+  loadEngineConfig,
+  loadEngineConfigs,
+  isInitialized,
+} from '../lib/config.js'
+import {
+  deployApp,
+  deployEngine,
+  deployModule,
+  loadDeploySettings,
+  planAppDeploy,
+  type OutputHandler,
+} from '../lib/deploy.js'
+import { validateDependencies, runInDependencyOrder } from '../lib/dependencies.js'
+import { describeRuntime } from '../lib/runtime.js'
+import { requestCancel, waitForRelease } from '../lib/lock.js'
+import { readChecksumFile, type Artifact } from '../lib/artifacts.js'
+import { selectByTags, formatTagSelectors } from '../lib/tags.js'
 import { log } from '../utils/logger.js'
 import { createSpinner } from '../utils/spinner.js'
 
+interface DeployCommandOptions {
+  all?: boolean
+  tag?: string[]
+  module?: string
+  ref?: string
+  force?: boolean
+  plan?: boolean
+  artifact?: string
+  sha256?: string
+  wait?: boolean
+  verbose?: boolean
+}
+
+// Print build output above the spinner while it keeps running
+function echoOutput(spinner: Ora): OutputHandler {
+  return (line, stream) => {
+    spinner.clear()
+    console.log(stream === 'stderr' ? chalk.red(line) : chalk.dim(line))
+    spinner.render()
+  }
+}
+
 export async function deployCommand(
-  name: string,
-  options: { module?: string }
+  name: string | undefined,
+  options: DeployCommandOptions
 ): Promise<void> {
   log.banner()
 
@@ -14,23 +58,59 @@ export async function deployCommand(
     process.exit(1)
   }
 
+  if (options.plan && (options.all || options.tag?.length || options.module)) {
+    log.error('--plan is only supported for a single app')
+    process.exit(1)
+  }
+
+  if (options.artifact && (options.all || options.tag?.length || options.module || options.ref || options.plan)) {
+    log.error('--artifact deploys a single app and cannot be combined with --all, --tag, --module, --ref or --plan')
+    process.exit(1)
+  }
+
+  if (options.all || options.tag?.length) {
+    if (name || options.module || options.ref) {
+      log.error('--all and --tag cannot be combined with a name, --module or --ref')
+      process.exit(1)
+    }
+    await deploySelected(options)
+    return
+  }
+
+  if (!name) {
+    log.error('Specify an app or engine to deploy, or use --all or --tag')
+    process.exit(1)
+  }
+
   // Check if deploying an engine module
   if (options.module) {
-    await deployEngineModule(name, options.module)
+    if (options.ref) {
+      log.error('--ref is only supported for apps')
+      process.exit(1)
+    }
+    await deployEngineModule(name, options.module, options)
     return
   }
 
   // Try to find as app first
   const appConfig = await loadAppConfig(name)
   if (appConfig) {
-    await deployAppByConfig(name, appConfig)
+    if (options.plan) {
+      await showDeployPlan(name, appConfig, options)
+      return
+    }
+    await deployAppByConfig(name, appConfig, options)
     return
   }
 
   // Try as engine
   const engineConfig = await loadEngineConfig(name)
   if (engineConfig) {
-    await deployEngineByConfig(name, engineConfig)
+    if (options.ref || options.plan || options.artifact) {
+      log.error(`${options.plan ? '--plan' : options.artifact ? '--artifact' : '--ref'} is only supported for apps`)
+      process.exit(1)
+    }
+    await deployEngineByConfig(name, engineConfig, options)
     return
   }
 
@@ -39,16 +119,30 @@ export async function deployCommand(
   process.exit(1)
 }
 
-async function deployAppByConfig(name: string, config: any): Promise<void> {
-  log.info(`Deploying ${name}...`)
+async function deployAppByConfig(
+  name: string,
+  config: any,
+  options: DeployCommandOptions
+): Promise<void> {
+  const artifact = options.artifact ? await resolveArtifact(options.artifact, options.sha256) : undefined
+
+  log.info(artifact
+    ? `Deploying ${name} from ${options.artifact}...`
+    : options.ref ? `Deploying ${name} at ${options.ref}...` : `Deploying ${name}...`)
   console.log()
 
   const spinner = createSpinner('Deploying...').start()
 
-  const result = await deployApp(config)
+  const result = await deployApp(config, {
+    artifact,
+    ref: options.ref,
+    force: options.force,
+    wait: options.wait,
+    onOutput: options.verbose ? echoOutput(spinner) : undefined,
+  })
 
   if (result.success) {
-    spinner.succeed(`Deployed ${name}`)
+    spinner.succeed(result.skipped ? `${name} already up to date, restarted` : `Deployed ${name}`)
     console.log()
     log.row('Commit:', result.commit || '-')
     log.row('Duration:', `${Math.round(result.duration / 1000)}s`)
@@ -57,18 +151,180 @@ async function deployAppByConfig(name: string, config: any): Promise<void> {
     spinner.fail(`Deployment failed`)
     console.log()
     log.error(result.error || 'Unknown error')
+    if (result.rolledBack) {
+      log.warn('Restored the previous release')
+    }
     process.exit(1)
   }
 }
 
-async function deployEngineByConfig(name: string, config: any): Promise<void> {
+// Artifact file and the checksum to verify it against (--sha256, else <file>.sha256)
+async function resolveArtifact(file: string, sha256?: string): Promise<Artifact> {
+  const path = resolve(file)
+  if (!existsSync(path)) {
+    log.error(`Artifact not found: ${file}`)
+    process.exit(1)
+  }
+
+  const checksum = sha256 || await readChecksumFile(path)
+  if (!checksum) {
+    log.error(`No checksum for ${file}: pass --sha256 or put it in ${file}.sha256`)
+    process.exit(1)
+  }
+
+  return { file: path, sha256: checksum }
+}
+
+// Print what a deploy would do without building or restarting anything
+async function showDeployPlan(
+  name: string,
+  config: any,
+  options: DeployCommandOptions
+): Promise<void> {
+  const spinner = createSpinner(`Planning deploy of ${name}...`).start()
+
+  let plan
+  try {
+    plan = await planAppDeploy(config, { ref: options.ref, force: options.force })
+    spinner.stop()
+  } catch (error) {
+    spinner.fail('Could not plan deploy')
+    log.error(error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  }
+
+  log.info(`Deploy plan for ${name}`)
+  console.log()
+  log.row('Current:', plan.current ? `${plan.current.sha.slice(0, 7)} (${plan.current.release})` : 'nothing deployed')
+  log.row('Incoming:', plan.incoming.sha.slice(0, 7) + (plan.incoming.ref ? ` (${plan.incoming.ref})` : ''))
+
+  if (plan.buildSkipped) {
+    console.log()
+    log.info('Commit is already live: the deploy would only restart the app (use --force to rebuild)')
+  }
+
+  if (plan.current && plan.current.sha !== plan.incoming.sha) {
+    console.log()
+    console.log(chalk.bold(`Commits (${plan.commits.length})`))
+    for (const commit of plan.commits) console.log(chalk.dim(`  ${commit}`))
+    console.log(chalk.bold(`Changed files (${plan.changedFiles.length})`))
+    for (const file of plan.changedFiles) console.log(chalk.dim(`  ${file.replace('\t', '  ')}`))
+  }
+
+  console.log()
+  log.row('Runtime:', describeRuntime(plan.runtime))
+  if (!plan.buildSkipped) {
+    log.row('Build:', `${plan.build.command} (in ${plan.build.cwd}, timeout ${plan.build.timeout}s)`)
+  }
+  if (plan.process.mode === 'script') {
+    log.row('Script:', plan.process.command)
+  } else {
+    log.row('Start:', plan.process.command)
+    log.row('PM2 name:', plan.process.name)
+    log.row('Port:', plan.process.port ? String(plan.process.port) : '-')
+    log.row('Instances:', String(plan.process.instances))
+    log.row('Memory:', plan.process.memory)
+    log.row('Strategy:', plan.process.strategy)
+  }
+  log.row('Hooks:', plan.hooks.length ? plan.hooks.join(', ') : '-')
+
+  console.log()
+  console.log(chalk.bold(`Environment (${plan.envKeys.length})`))
+  for (const key of plan.envKeys) console.log(chalk.dim(`  ${key}=********`))
+
+  console.log()
+  const nginx = {
+    none: 'no domain configured',
+    new: 'would be created',
+    unchanged: 'unchanged',
+    changed: 'would change',
+  }[plan.nginx.status]
+  log.row('Nginx:', plan.nginx.status === 'changed' && !plan.nginx.appliedByDeploy
+    ? `${nginx} (applied by "shyp sync")`
+    : nginx)
+}
+
+// Deploy every engine and app (or those matching --tag): engines one at a time,
+// then apps with dependencies first and independent apps in parallel
+async function deploySelected(options: DeployCommandOptions): Promise<void> {
+  const allApps = await loadAppConfigs()
+
+  const dependencyErrors = validateDependencies(allApps)
+  if (dependencyErrors.length > 0) {
+    for (const error of dependencyErrors) log.error(error)
+    process.exit(1)
+  }
+
+  const apps = selectByTags(allApps, options.tag)
+  const engines = selectByTags(await loadEngineConfigs(), options.tag)
+  const total = apps.size + engines.size
+
+  if (total === 0) {
+    log.error(options.tag?.length
+      ? `No apps or engines match --tag ${formatTagSelectors(options.tag)}`
+      : 'No apps or engines configured')
+    process.exit(1)
+  }
+
+  const { deployment } = await loadDeploySettings()
+  log.info(`Deploying ${total} apps and engines (up to ${deployment.concurrency} apps at a time)...`)
+  console.log()
+
+  let failed = 0
+
+  for (const engine of engines.values()) {
+    console.log(chalk.dim(`  → Deploying ${engine.name}...`))
+    const result = await deployEngine(engine, { wait: options.wait })
+    if (result.success) {
+      console.log(chalk.green(`  ✓ ${engine.name} deployed (${result.commit || '-'})`))
+    } else {
+      failed++
+      console.log(chalk.red(`  ✗ ${engine.name} failed: ${result.error}`))
+    }
+  }
+
+  const results = await runInDependencyOrder(Array.from(apps.values()), {
+    concurrency: deployment.concurrency,
+    run: async app => {
+      console.log(chalk.dim(`  → Deploying ${app.name}...`))
+      const result = await deployApp(app, { force: options.force, wait: options.wait })
+      if (result.success) {
+        console.log(chalk.green(`  ✓ ${app.name} deployed (${result.commit || '-'})`))
+      } else {
+        console.log(chalk.red(`  ✗ ${app.name} failed: ${result.error}`))
+      }
+      return result.success
+    },
+    onSkip: (app, dependency) => {
+      console.log(chalk.red(`  ✗ ${app.name} skipped: ${dependency} failed`))
+    },
+  })
+
+  failed += [...results.values()].filter(status => status !== 'success').length
+  console.log()
+  if (failed === 0) {
+    log.success(`All ${total} deployed`)
+  } else {
+    log.error(`Deployed ${total - failed}, failed or skipped ${failed}`)
+    process.exit(1)
+  }
+}
+
+async function deployEngineByConfig(
+  name: string,
+  config: any,
+  options: DeployCommandOptions
+): Promise<void> {
   log.info(`Deploying engine ${name}...`)
-  log.warn('This will restart the engine and all managed modules')
+  log.dim('The engine keeps running while it builds, then reloads; modules with their own process restart one at a time')
   console.log()
 
   const spinner = createSpinner('Deploying engine...').start()
 
-  const result = await deployEngine(config)
+  const result = await deployEngine(config, {
+    wait: options.wait,
+    onOutput: options.verbose ? echoOutput(spinner) : undefined,
+  })
 
   if (result.success) {
     spinner.succeed(`Deployed engine ${name}`)
@@ -84,7 +340,11 @@ async function deployEngineByConfig(name: string, config: any): Promise<void> {
   }
 }
 
-async function deployEngineModule(engineName: string, moduleName: string): Promise<void> {
+async function deployEngineModule(
+  engineName: string,
+  moduleName: string,
+  options: DeployCommandOptions
+): Promise<void> {
   const engineConfig = await loadEngineConfig(engineName)
   if (!engineConfig) {
     log.error(`Engine not found: ${engineName}`)
@@ -106,7 +366,10 @@ async function deployEngineModule(engineName: string, moduleName: string): Promi
 
   const spinner = createSpinner('Deploying module...').start()
 
-  const result = await deployModule(engineConfig, moduleName, moduleConfig)
+  const result = await deployModule(engineConfig, moduleName, moduleConfig, {
+    wait: options.wait,
+    onOutput: options.verbose ? echoOutput(spinner) : undefined,
+  })
 
   if (result.success) {
     spinner.succeed(`Deployed ${engineName}/${moduleName}`)
@@ -121,3 +384,31 @@ async function deployEngineModule(engineName: string, moduleName: string): Promi
     process.exit(1)
   }
 }
+
+// How long `shyp deploy cancel` waits for the deploy to stop (rollback included)
+const CANCEL_TIMEOUT_MS = 120_000
+
+export async function cancelDeployCommand(name: string): Promise<void> {
+  log.banner()
+
+  if (!isInitialized()) {
+    log.error('Shyp is not initialized. Run: shyp init')
+    process.exit(1)
+  }
+
+  const pid = await requestCancel(name)
+  if (!pid) {
+    log.error(`No deploy in progress for ${name}`)
+    process.exit(1)
+  }
+
+  const spinner = createSpinner(`Cancelling deploy of ${name} (PID ${pid})...`).start()
+
+  if (await waitForRelease(name, pid, CANCEL_TIMEOUT_MS)) {
+    spinner.succeed(`Cancelled deploy of ${name}`)
+    log.dim(`Run "shyp logs ${name}" for details`)
+  } else {
+    spinner.fail(`Deploy of ${name} is still running`)
+    process.exit(1)
+  }
+}
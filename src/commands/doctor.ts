@@ -1,9 +1,16 @@
 import chalk from 'chalk'
 import { existsSync } from 'fs'
+import { join } from 'path'
 import { isGitAvailable } from '../lib/git.js'
 import { isPM2Available } from '../lib/pm2.js'
 import { isNginxAvailable, testNginxConfig } from '../lib/nginx.js'
-import { isInitialized } from '../lib/config.js'
+import { isInitialized, loadAppConfigs, loadEngineConfigs } from '../lib/config.js'
+import { validateDependencies } from '../lib/dependencies.js'
+import { resolveNodeVersion, usesNode } from '../lib/node.js'
+import { resolveRuntime, directoryReader, isDenoAvailable } from '../lib/runtime.js'
+import { loadDeploySettings } from '../lib/deploy.js'
+import { getReleasePaths } from '../lib/releases.js'
+import type { Runtime, ResolvedRuntime } from '../schemas/index.js'
 import { log } from '../utils/logger.js'
 import {
   SHYP_DIR,
@@ -98,6 +105,37 @@ export async function doctorCommand(): Promise<void> {
     })
   }
 
+  // App dependencies
+  if (shypInitialized) {
+    const dependencyErrors = validateDependencies(await loadAppConfigs())
+    checks.push({
+      name: 'App dependencies',
+      ok: dependencyErrors.length === 0,
+      message: dependencyErrors.length > 0 ? dependencyErrors.join('\n  ') : undefined,
+    })
+
+    const targets = await loadRuntimeTargets()
+    const missingNode = await findMissingNodeVersions(targets)
+    checks.push({
+      name: 'Node.js versions',
+      ok: missingNode.length === 0,
+      message: missingNode.length > 0 ? missingNode.join('\n  ') : undefined,
+    })
+
+    // Deno is only required when something runs on it
+    const denoUsers = targets.filter(target => target.runtime === 'deno').map(target => target.name)
+    if (denoUsers.length > 0) {
+      const denoOk = await isDenoAvailable()
+      checks.push({
+        name: 'Deno',
+        ok: denoOk,
+        message: denoOk
+          ? undefined
+          : `Deno not found (needed by ${denoUsers.join(', ')}). Install with: curl -fsSL https://deno.land/install.sh | sh`,
+      })
+    }
+  }
+
   // Display results
   console.log(chalk.bold.white('\nResults'))
   console.log(chalk.dim('─'.repeat(50)))
@@ -122,3 +160,56 @@ export async function doctorCommand(): Promise<void> {
     log.success('All checks passed!')
   }
 }
+
+// An app or engine with its runtime settled (`auto` is detected from the live files)
+interface RuntimeTarget {
+  name: string
+  runtime: ResolvedRuntime
+  nodeVersion?: string
+  dirs: string[]
+}
+
+// Every app and engine, with the directories its project files live in
+async function loadRuntimeTargets(): Promise<RuntimeTarget[]> {
+  const targets: (Omit<RuntimeTarget, 'runtime'> & { runtime: Runtime })[] = []
+
+  for (const [name, app] of await loadAppConfigs()) {
+    const current = getReleasePaths(app.path).current
+    targets.push({
+      name,
+      runtime: app.runtime,
+      nodeVersion: app.node_version,
+      dirs: app.root ? [join(current, app.root), current] : [current],
+    })
+  }
+
+  for (const [name, engine] of await loadEngineConfigs()) {
+    targets.push({
+      name,
+      runtime: engine.server.runtime,
+      nodeVersion: engine.server.node_version,
+      dirs: [engine.server.path],
+    })
+  }
+
+  return Promise.all(targets.map(async target => ({
+    ...target,
+    runtime: (await resolveRuntime(target.runtime, target.dirs.map(directoryReader))).runtime,
+  })))
+}
+
+// Node.js versions apps and engines ask for that no installed toolchain satisfies
+async function findMissingNodeVersions(targets: RuntimeTarget[]): Promise<string[]> {
+  const { defaults } = await loadDeploySettings()
+
+  const missing: string[] = []
+  for (const { name, runtime, nodeVersion, dirs } of targets) {
+    if (!usesNode(runtime)) continue
+    const resolution = await resolveNodeVersion({ configured: nodeVersion, dirs, fallback: defaults.node_version })
+    if (resolution && !resolution.install) {
+      missing.push(`${name}: Node.js ${resolution.spec} (from ${resolution.source}) is not installed`)
+    }
+  }
+
+  return missing
+}
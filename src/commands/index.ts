@@ -1,5 +1,5 @@
 export { statusCommand } from './status.js'
-export { deployCommand } from './deploy.js'
+export { deployCommand, cancelDeployCommand } from './deploy.js'
 export { portsCommand } from './ports.js'
 export { doctorCommand } from './doctor.js'
 export { initCommand } from './init.js'
@@ -8,3 +8,6 @@ export { syncCommand } from './sync.js'
 export { logsCommand } from './logs.js'
 export { addCommand } from './add.js'
 export { upCommand } from './up.js'
+export { rollbackCommand } from './rollback.js'
+export { restartCommand } from './restart.js'
+export { migrateCommand } from './migrate.js'
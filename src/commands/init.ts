@@ -108,7 +108,6 @@ export async function initCommand(options: { force?: boolean }): Promise<void> {
           auto_renew: true,
         },
         defaults: {
-          node_version: '23',
           build_timeout: 600,
           health_check_timeout: 30,
           max_memory: '512M',
@@ -134,6 +133,7 @@ export async function initCommand(options: { force?: boolean }): Promise<void> {
       allocations: {},
       reserved: [4040, 8080, 9000],
       engine_managed: {},
+      blue_green: {},
       ranges: {
         standard: { start: 3001, end: 3099, next: 3001 },
         games: { start: 4000, end: 4099, next: 4000 },
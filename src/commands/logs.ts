@@ -2,13 +2,54 @@ import { readdir, readFile } from 'fs/promises'
 import { existsSync } from 'fs'
 import { join } from 'path'
 import chalk from 'chalk'
+import { loadAppConfigs, loadEngineConfigs } from '../lib/config.js'
+import { selectByTags, formatTagSelectors } from '../lib/tags.js'
 import { log } from '../utils/logger.js'
 import { APPS_LOG_DIR } from '../utils/paths.js'
 
+interface LogsOptions {
+  follow?: boolean
+  lines?: number
+  tag?: string[]
+}
+
 export async function logsCommand(
-  name: string,
-  options: { follow?: boolean; lines?: number }
+  name: string | undefined,
+  options: LogsOptions
 ): Promise<void> {
+  if (!options.tag?.length) {
+    if (!name) {
+      log.error('Specify an app or use --tag')
+      process.exit(1)
+    }
+    await showLatestLog(name, options)
+    return
+  }
+
+  if (name) {
+    log.error('--tag cannot be combined with a name')
+    process.exit(1)
+  }
+
+  // Latest log of every matching app and engine
+  const names = [
+    ...selectByTags(await loadAppConfigs(), options.tag).keys(),
+    ...selectByTags(await loadEngineConfigs(), options.tag).keys(),
+  ]
+  if (names.length === 0) {
+    log.error(`No apps or engines match --tag ${formatTagSelectors(options.tag)}`)
+    process.exit(1)
+  }
+
+  for (const [i, match] of names.entries()) {
+    if (i > 0) console.log()
+    console.log(chalk.bold.cyan(`### ${match}`))
+    await showLatestLog(match, { ...options, follow: false })
+  }
+}
+
+// Print the tail of an app's most recent deployment log
+async function showLatestLog(name: string, options: LogsOptions): Promise<void> {
   const logDir = join(APPS_LOG_DIR, name)
 
   if (!existsSync(logDir)) {
@@ -41,9 +82,11 @@ export async function logsCommand(
   console.log()
 
   for (const line of displayLines) {
-    // Color code log lines
-    if (line.includes('STDERR')) {
+    // Color code log lines (command output is tagged [stdout] / [stderr])
+    if (line.includes('] [stderr] ') || line.includes('STDERR')) {
       console.log(chalk.red(line))
+    } else if (line.includes('] [stdout] ')) {
+      console.log(line)
     } else if (line.includes('===')) {
       console.log(chalk.bold.white(line))
     } else if (line.includes('ERROR') || line.includes('FAILED')) {
@@ -0,0 +1,54 @@
+import { loadEngineConfig, isInitialized } from '../lib/config.js'
+import { migrateEngine } from '../lib/deploy.js'
+import { log } from '../utils/logger.js'
+import { createSpinner } from '../utils/spinner.js'
+
+// Run an engine's database migrations (or a module's) without deploying
+export async function migrateCommand(
+  name: string,
+  options: { module?: string; wait?: boolean }
+): Promise<void> {
+  log.banner()
+
+  if (!isInitialized()) {
+    log.error('Shyp is not initialized. Run: shyp init')
+    process.exit(1)
+  }
+
+  const engine = await loadEngineConfig(name)
+  if (!engine) {
+    log.error(`Engine not found: ${name}`)
+    process.exit(1)
+  }
+
+  const database = engine.server.database
+  const command = options.module ? database?.module_migrations : database?.migrations
+  if (!command) {
+    log.error(`No ${options.module ? 'server.database.module_migrations' : 'server.database.migrations'} configured for ${name}`)
+    process.exit(1)
+  }
+
+  const target = options.module ? `${name}/${options.module}` : name
+  log.info(`Running migrations for ${target}...`)
+  log.dim(command)
+  console.log()
+
+  const spinner = createSpinner('Migrating...').start()
+
+  const result = await migrateEngine(engine, { module: options.module, wait: options.wait })
+
+  if (result.success) {
+    spinner.succeed(`Migrated ${target}`)
+    console.log()
+    log.row('Duration:', `${Math.round(result.duration / 1000)}s`)
+    log.row('Log ID:', result.deploymentId)
+  } else {
+    spinner.fail('Migrations failed')
+    console.log()
+    log.error(result.error || 'Unknown error')
+    if (result.deploymentId) {
+      log.dim(`Run "shyp logs ${target.replace('/', '-')}" for details`)
+    }
+    process.exit(1)
+  }
+}
@@ -1,6 +1,6 @@
 import chalk from 'chalk'
 import { loadAppConfigs, loadEngineConfigs } from '../lib/config.js'
-import { loadPortAllocations } from '../lib/state.js'
+import { loadPortAllocations, getModulePort } from '../lib/state.js'
 import { log } from '../utils/logger.js'
 
 export async function portsCommand(): Promise<void> {
@@ -29,6 +29,16 @@ export async function portsCommand(): Promise<void> {
 
   // Add app ports
   for (const [name, config] of apps) {
+    // Blue/green apps own a pair of ports
+    const pair = ports.blue_green[name]
+    if (pair) {
+      for (const pairPort of pair.ports) {
+        const role = pairPort === pair.active ? 'live' : 'standby'
+        portList.push({ port: pairPort, name: `${name} (${role})`, type: 'app', domain: config.domain })
+      }
+      continue
+    }
+
     const port = config.port || ports.allocations[name]
     if (port) {
       portList.push({ port, name, type: 'app', domain: config.domain })
@@ -46,11 +56,13 @@ export async function portsCommand(): Promise<void> {
       portList.push({ port: serverPorts.websocket, name: `${name} (ws)`, type: 'engine' })
     }
 
-    // Add module ports
+    // Add module ports (auto-assigned ones are marked)
     for (const [moduleName, moduleConfig] of Object.entries(config.modules)) {
+      const port = getModulePort(ports, name, moduleName, moduleConfig)
+      if (!port) continue
       portList.push({
-        port: moduleConfig.port,
-        name: `${name}/${moduleName}`,
+        port,
+        name: `${name}/${moduleName}${moduleConfig.port ? '' : ' (auto)'}`,
         type: 'module',
         domain: moduleConfig.domain,
       })
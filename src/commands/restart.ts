@@ -0,0 +1,84 @@
+import chalk from 'chalk'
+import * as pm2 from '../lib/pm2.js'
+import {
+  loadAppConfig,
+  loadAppConfigs,
+  loadEngineConfig,
+  loadEngineConfigs,
+  isInitialized,
+} from '../lib/config.js'
+import { loadPortAllocations } from '../lib/state.js'
+import { getAppProcessName } from '../lib/deploy.js'
+import { selectByTags, formatTagSelectors } from '../lib/tags.js'
+import { log } from '../utils/logger.js'
+
+// Restart the PM2 processes of an app or engine, or of everything matching --tag
+export async function restartCommand(
+  name: string | undefined,
+  options: { tag?: string[] }
+): Promise<void> {
+  log.banner()
+
+  if (!isInitialized()) {
+    log.error('Shyp is not initialized. Run: shyp init')
+    process.exit(1)
+  }
+
+  if (name && options.tag?.length) {
+    log.error('--tag cannot be combined with a name')
+    process.exit(1)
+  }
+
+  const ports = await loadPortAllocations()
+  const targets: { name: string; process: string }[] = []
+
+  if (name) {
+    const app = await loadAppConfig(name)
+    const engine = app ? null : await loadEngineConfig(name)
+    if (app) {
+      targets.push({ name, process: getAppProcessName(app, ports) })
+    } else if (engine) {
+      targets.push({ name, process: engine.server.pm2?.name || engine.name })
+    } else {
+      log.error(`App or engine not found: ${name}`)
+      log.dim('Run "shyp status" to see available apps')
+      process.exit(1)
+    }
+  } else if (options.tag?.length) {
+    for (const app of selectByTags(await loadAppConfigs(), options.tag).values()) {
+      targets.push({ name: app.name, process: getAppProcessName(app, ports) })
+    }
+    for (const engine of selectByTags(await loadEngineConfigs(), options.tag).values()) {
+      targets.push({ name: engine.name, process: engine.server.pm2?.name || engine.name })
+    }
+
+    if (targets.length === 0) {
+      log.error(`No apps or engines match --tag ${formatTagSelectors(options.tag)}`)
+      process.exit(1)
+    }
+  } else {
+    log.error('Specify an app or engine to restart, or use --tag')
+    process.exit(1)
+  }
+
+  let failed = 0
+
+  for (const target of targets) {
+    try {
+      await pm2.restartProcess(target.process)
+      console.log(chalk.green(`  ✓ ${target.name} restarted`))
+    } catch (error) {
+      failed++
+      const msg = error instanceof Error ? error.message : String(error)
+      console.log(chalk.red(`  ✗ ${target.name} failed: ${msg}`))
+    }
+  }
+
+  console.log()
+  if (failed === 0) {
+    log.success(`Restarted ${targets.length} app${targets.length > 1 ? 's' : ''}`)
+  } else {
+    log.error(`Restarted ${targets.length - failed}, failed ${failed}`)
+    process.exit(1)
+  }
+}
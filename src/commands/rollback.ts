@@ -0,0 +1,45 @@
+import { loadAppConfig, isInitialized } from '../lib/config.js'
+import { rollbackApp } from '../lib/deploy.js'
+import { log } from '../utils/logger.js'
+import { createSpinner } from '../utils/spinner.js'
+
+export async function rollbackCommand(
+  name: string,
+  options: { to?: string; wait?: boolean }
+): Promise<void> {
+  log.banner()
+
+  if (!isInitialized()) {
+    log.error('Shyp is not initialized. Run: shyp init')
+    process.exit(1)
+  }
+
+  const config = await loadAppConfig(name)
+  if (!config) {
+    log.error(`App not found: ${name}`)
+    log.dim('Run "shyp status" to see available apps')
+    process.exit(1)
+  }
+
+  log.info(options.to
+    ? `Rolling back ${name} to deployment ${options.to}...`
+    : `Rolling back ${name} to the previous successful deployment...`)
+  console.log()
+
+  const spinner = createSpinner('Rolling back...').start()
+
+  const result = await rollbackApp(config, { to: options.to, wait: options.wait })
+
+  if (result.success) {
+    spinner.succeed(`Rolled back ${name}`)
+    console.log()
+    log.row('Commit:', result.commit || '-')
+    log.row('Duration:', `${Math.round(result.duration / 1000)}s`)
+    log.row('Deployment ID:', result.deploymentId)
+  } else {
+    spinner.fail(`Rollback failed`)
+    console.log()
+    log.error(result.error || 'Unknown error')
+    process.exit(1)
+  }
+}
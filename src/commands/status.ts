@@ -1,11 +1,28 @@
 import chalk from 'chalk'
 import { loadAppConfigs, loadEngineConfigs, isInitialized } from '../lib/config.js'
 import { listProcesses, formatMemory, formatUptime, type PM2Process } from '../lib/pm2.js'
-import { loadPortAllocations, loadDeployments } from '../lib/state.js'
+import { loadPortAllocations, loadDeployments, getModulePort } from '../lib/state.js'
 import { getCertInfo, formatCertStatus, type CertInfo } from '../lib/ssl.js'
+import { getAppProcessName } from '../lib/deploy.js'
+import { selectByTags } from '../lib/tags.js'
 import { log } from '../utils/logger.js'
+import type { DeploymentRecord } from '../schemas/index.js'
+
+// Last deployment outcome for the status table
+function formatDeployStatus(record: DeploymentRecord | undefined): string {
+  if (!record) return chalk.dim('-'.padEnd(10))
+
+  const text = record.status.replace('_', ' ').padEnd(10)
+  switch (record.status) {
+    case 'success': return chalk.green(text)
+    case 'timed_out':
+    case 'cancelled': return chalk.yellow(text)
+    case 'in_progress': return chalk.cyan(text)
+    default: return chalk.red(text)
+  }
+}
 
-export async function statusCommand(): Promise<void> {
+export async function statusCommand(options: { tag?: string[] } = {}): Promise<void> {
   log.banner()
 
   if (!isInitialized()) {
@@ -14,7 +31,7 @@ export async function statusCommand(): Promise<void> {
   }
 
   // Load all data in parallel
-  const [apps, engines, processes, ports, deployments] = await Promise.all([
+  const [allApps, allEngines, processes, ports, deployments] = await Promise.all([
     loadAppConfigs(),
     loadEngineConfigs(),
     listProcesses(),
@@ -22,6 +39,9 @@ export async function statusCommand(): Promise<void> {
     loadDeployments(),
   ])
 
+  const apps = selectByTags(allApps, options.tag)
+  const engines = selectByTags(allEngines, options.tag)
+
   // Create process lookup
   const processMap = new Map<string, PM2Process>()
   for (const p of processes) {
@@ -57,14 +77,15 @@ export async function statusCommand(): Promise<void> {
       chalk.dim('PORT'.padEnd(6)),
       chalk.dim('MEM'.padEnd(8)),
       chalk.dim('UPTIME'.padEnd(10)),
+      chalk.dim('DEPLOY'.padEnd(10)),
       chalk.dim('SSL'.padEnd(6)),
       chalk.dim('DOMAIN')
     )
 
     for (const [name, config] of apps) {
-      const pm2Name = config.pm2?.name || name
+      const pm2Name = getAppProcessName(config, ports)
       const proc = processMap.get(pm2Name)
-      const port = config.port || ports.allocations[name] || '-'
+      const port = ports.blue_green[name]?.active || config.port || ports.allocations[name] || '-'
 
       const status = proc?.status || 'stopped'
       const statusColor = status === 'online' ? chalk.green : chalk.red
@@ -83,6 +104,7 @@ export async function statusCommand(): Promise<void> {
         chalk.cyan(String(port).padEnd(6)),
         chalk.dim((proc ? formatMemory(proc.memory) : '-').padEnd(8)),
         chalk.dim((proc ? formatUptime(proc.uptime) : '-').padEnd(10)),
+        formatDeployStatus(deployments[name]?.history[0]),
         certColor(cert.text.padEnd(6)),
         chalk.yellow(config.domain || '-')
       )
@@ -132,7 +154,7 @@ export async function statusCommand(): Promise<void> {
             chalk.dim('  └─'),
             chalk.white(moduleName.padEnd(14)),
             moduleStatusColor(`${moduleIcon} ${moduleStatus}`.padEnd(12)),
-            chalk.cyan(String(moduleConfig.port).padEnd(6)),
+            chalk.cyan(String(getModulePort(ports, name, moduleName, moduleConfig) ?? '-').padEnd(6)),
             modCertColor(modCert.text.padEnd(6)),
             chalk.yellow(moduleConfig.domain || '-')
           )
@@ -142,8 +164,12 @@ export async function statusCommand(): Promise<void> {
   }
 
   if (apps.size === 0 && engines.size === 0) {
-    log.dim('\nNo apps or engines configured.')
-    log.dim('Add an app: shyp add <name>')
+    if (allApps.size > 0 || allEngines.size > 0) {
+      log.dim('\nNo apps or engines match the given tags.')
+    } else {
+      log.dim('\nNo apps or engines configured.')
+      log.dim('Add an app: shyp add <name>')
+    }
   }
 
   console.log()
@@ -1,6 +1,12 @@
 import chalk from 'chalk'
 import { loadAppConfigs, loadEngineConfigs, loadGlobalConfig, isInitialized } from '../lib/config.js'
-import { allocatePort, loadPortAllocations, savePortAllocations } from '../lib/state.js'
+import {
+  allocatePort,
+  allocateModulePorts,
+  getModulePort,
+  loadPortAllocations,
+  savePortAllocations,
+} from '../lib/state.js'
 import {
   generateNginxConfig,
   generateModuleConfig,
@@ -56,6 +62,23 @@ export async function syncCommand(options: { dryRun?: boolean }): Promise<void>
     }
   }
 
+  // Assign module ports from each engine's module range
+  // (a dry run keeps them in memory so the nginx preview below can use them)
+  const plannedModulePorts: Record<string, number> = {}
+  for (const [engineName, engine] of engines) {
+    try {
+      const assigned = await allocateModulePorts(engine, { dryRun })
+      for (const [moduleName, port] of Object.entries(assigned)) {
+        plannedModulePorts[`${engineName}/${moduleName}`] = port
+        actions.push(`Allocated port ${port} for ${engineName}/${moduleName}`)
+      }
+    } catch (error) {
+      log.warn(error instanceof Error ? error.message : String(error))
+    }
+  }
+  const ports = await loadPortAllocations()
+  Object.assign(ports.modules, plannedModulePorts)
+
   // Collect engine module domains
   for (const [, engine] of engines) {
     for (const [, moduleConfig] of Object.entries(engine.modules)) {
@@ -95,7 +118,9 @@ export async function syncCommand(options: { dryRun?: boolean }): Promise<void>
   for (const [name, config] of apps) {
     if (!config.domain) continue
 
-    const nginxConfig = generateNginxConfig(config)
+    // Blue/green apps: keep nginx on whichever port is currently live
+    const activePort = ports.blue_green[name]?.active
+    const nginxConfig = generateNginxConfig(activePort ? { ...config, port: activePort } : config)
     actions.push(`Generated nginx config for ${name} (${config.domain})`)
 
     if (!dryRun) {
@@ -109,7 +134,13 @@ export async function syncCommand(options: { dryRun?: boolean }): Promise<void>
     for (const [moduleName, moduleConfig] of Object.entries(engine.modules)) {
       if (!moduleConfig.domain) continue
 
-      const nginxConfig = generateModuleConfig(engine, moduleName, moduleConfig)
+      const port = getModulePort(ports, engineName, moduleName, moduleConfig)
+      if (!port) {
+        log.warn(`Skipping nginx config for ${engineName}/${moduleName}: no port`)
+        continue
+      }
+
+      const nginxConfig = generateModuleConfig(engine, moduleName, { ...moduleConfig, port })
       const configName = `${engineName}-${moduleName}`
       actions.push(`Generated nginx config for ${configName} (${moduleConfig.domain})`)
 
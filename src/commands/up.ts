@@ -2,23 +2,33 @@ import chalk from 'chalk'
 import * as pm2 from '../lib/pm2.js'
 import { loadAppConfigs, loadEngineConfigs } from '../lib/config.js'
 import { log } from '../utils/logger.js'
-import { deployApp, deployEngine } from '../lib/deploy.js'
+import { loadPortAllocations } from '../lib/state.js'
+import { deployApp, deployEngine, getAppProcessName, loadDeploySettings } from '../lib/deploy.js'
+import { validateDependencies, runInDependencyOrder } from '../lib/dependencies.js'
+import { selectByTags } from '../lib/tags.js'
 import type { AppConfig, EngineConfig } from '../schemas/index.js'
 
-// Start all stopped apps
-export async function upCommand(): Promise<void> {
+// Start all stopped apps (or those matching --tag)
+export async function upCommand(options: { tag?: string[] } = {}): Promise<void> {
   log.banner()
 
   const appsMap = await loadAppConfigs()
   const enginesMap = await loadEngineConfigs()
-  const apps = Array.from(appsMap.values())
-  const engines = Array.from(enginesMap.values())
+  const apps = Array.from(selectByTags(appsMap, options.tag).values())
+  const engines = Array.from(selectByTags(enginesMap, options.tag).values())
   const pm2Processes = await pm2.listProcesses()
+  const ports = await loadPortAllocations()
+
+  const dependencyErrors = validateDependencies(appsMap)
+  if (dependencyErrors.length > 0) {
+    for (const error of dependencyErrors) log.error(error)
+    process.exit(1)
+  }
 
   // Find stopped apps
   const stoppedApps: AppConfig[] = []
   for (const app of apps) {
-    const pm2Name = app.pm2?.name || app.name
+    const pm2Name = getAppProcessName(app, ports)
     const process = pm2Processes.find(p => p.name === pm2Name)
     if (!process || process.status !== 'online') {
       stoppedApps.push(app)
@@ -66,24 +76,33 @@ export async function upCommand(): Promise<void> {
     }
   }
 
-  // Start apps
-  for (const app of stoppedApps) {
-    try {
-      console.log(chalk.dim(`  → Starting ${app.name}...`))
-      const result = await deployApp(app)
-      if (result.success) {
-        started++
-        console.log(chalk.green(`  ✓ ${app.name} started`))
-      } else {
+  // Start apps, dependencies first
+  const { deployment } = await loadDeploySettings()
+  await runInDependencyOrder(stoppedApps, {
+    concurrency: deployment.concurrency,
+    run: async app => {
+      try {
+        console.log(chalk.dim(`  → Starting ${app.name}...`))
+        const result = await deployApp(app)
+        if (result.success) {
+          started++
+          console.log(chalk.green(`  ✓ ${app.name} started`))
+          return true
+        }
         failed++
         console.log(chalk.red(`  ✗ ${app.name} failed: ${result.error}`))
+      } catch (error) {
+        failed++
+        const msg = error instanceof Error ? error.message : String(error)
+        console.log(chalk.red(`  ✗ ${app.name} failed: ${msg}`))
       }
-    } catch (error) {
+      return false
+    },
+    onSkip: (app, dependency) => {
       failed++
-      const msg = error instanceof Error ? error.message : String(error)
-      console.log(chalk.red(`  ✗ ${app.name} failed: ${msg}`))
-    }
-  }
+      console.log(chalk.red(`  ✗ ${app.name} skipped: ${dependency} failed`))
+    },
+  })
 
   console.log()
   if (failed === 0) {
@@ -94,4 +113,8 @@ export async function upCommand(): Promise<void> {
 
   // Save PM2 process list
   await pm2.saveProcessList()
+
+  if (failed > 0) {
+    process.exit(1)
+  }
 }
@@ -0,0 +1,113 @@
+import { execa } from 'execa'
+import { createHash, createHmac, timingSafeEqual } from 'crypto'
+import { createReadStream, createWriteStream, existsSync } from 'fs'
+import { mkdir, readFile, rm } from 'fs/promises'
+import { join } from 'path'
+import { pipeline } from 'stream/promises'
+import type { Readable } from 'stream'
+import { ArtifactMetadataSchema, type ArtifactMetadata } from '../schemas/index.js'
+import { ARTIFACTS_DIR } from '../utils/paths.js'
+
+// Metadata file read from the top of an unpacked artifact
+export const ARTIFACT_METADATA_FILE = 'shyp-artifact.json'
+
+// A prebuilt .tar.gz to deploy instead of checking out and building
+export interface Artifact {
+  file: string
+  sha256: string // Expected checksum, verified before unpacking
+}
+
+// Raised when an artifact does not match its expected checksum
+export class ArtifactChecksumError extends Error {
+  constructor(public readonly expected: string, public readonly actual: string) {
+    super(`Artifact checksum mismatch: expected ${expected}, got ${actual}`)
+    this.name = 'ArtifactChecksumError'
+  }
+}
+
+// Raised when an uploaded artifact is larger than allowed
+export class ArtifactTooLargeError extends Error {
+  constructor(public readonly maxBytes: number) {
+    super(`Artifact is larger than ${maxBytes} bytes`)
+    this.name = 'ArtifactTooLargeError'
+  }
+}
+
+// sha256 of a file, hex encoded
+export async function hashFile(path: string): Promise<string> {
+  const hash = createHash('sha256')
+  await pipeline(createReadStream(path), hash)
+  return hash.digest('hex')
+}
+
+// Throw unless the artifact matches its expected checksum
+export async function verifyArtifact(artifact: Artifact): Promise<void> {
+  const actual = await hashFile(artifact.file)
+  if (actual !== artifact.sha256.toLowerCase()) {
+    throw new ArtifactChecksumError(artifact.sha256, actual)
+  }
+}
+
+// Read the checksum for an artifact from a sha256sum-style <file>.sha256 next to it
+export async function readChecksumFile(file: string): Promise<string | null> {
+  const path = `${file}.sha256`
+  if (!existsSync(path)) return null
+  const [hash] = (await readFile(path, 'utf-8')).trim().split(/\s+/)
+  return hash || null
+}
+
+// Unpack an artifact into a directory and return its metadata ({} without a metadata file)
+export async function unpackArtifact(file: string, dir: string): Promise<ArtifactMetadata> {
+  await mkdir(dir, { recursive: true })
+  await execa('tar', ['-xzf', file, '-C', dir])
+
+  const metadataPath = join(dir, ARTIFACT_METADATA_FILE)
+  if (!existsSync(metadataPath)) return {}
+  return ArtifactMetadataSchema.parse(JSON.parse(await readFile(metadataPath, 'utf-8')))
+}
+
+// Store an uploaded artifact under ARTIFACTS_DIR, computing its sha256 and an
+// HMAC-SHA256 of the body with `secret` on the way through
+// The upload is aborted with ArtifactTooLargeError once it passes `maxBytes`.
+export async function saveUploadedArtifact(
+  name: string,
+  body: Readable,
+  secret: string,
+  maxBytes: number
+): Promise<{ file: string; sha256: string; signature: string }> {
+  const dir = join(ARTIFACTS_DIR, name)
+  await mkdir(dir, { recursive: true })
+  const file = join(dir, `${Date.now()}-${process.pid}.tgz`)
+
+  const hash = createHash('sha256')
+  const hmac = createHmac('sha256', secret)
+  let received = 0
+  body.on('data', (chunk: Buffer) => {
+    received += chunk.length
+    if (received > maxBytes) {
+      body.destroy(new ArtifactTooLargeError(maxBytes))
+      return
+    }
+    hash.update(chunk)
+    hmac.update(chunk)
+  })
+
+  try {
+    await pipeline(body, createWriteStream(file))
+  } catch (error) {
+    await rm(file, { force: true })
+    throw error
+  }
+
+  return { file, sha256: hash.digest('hex'), signature: 'sha256=' + hmac.digest('hex') }
+}
+
+// Constant-time comparison of two signatures
+export function signaturesMatch(expected: string, actual: string | undefined): boolean {
+  if (!actual) return false
+  try {
+    return timingSafeEqual(Buffer.from(expected), Buffer.from(actual))
+  } catch {
+    return false
+  }
+}
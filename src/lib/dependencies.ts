@@ -0,0 +1,107 @@
+import type { AppConfig } from '../schemas/index.js'
+
+// Outcome of one app in an ordered run
+export type OrderedStatus = 'success' | 'failed' | 'skipped'
+
+// Check depends_on references: unknown apps, self-references and cycles
+export function validateDependencies(apps: Map<string, AppConfig>): string[] {
+  const errors: string[] = []
+
+  for (const app of apps.values()) {
+    for (const dep of app.depends_on) {
+      if (dep === app.name) {
+        errors.push(`${app.name} depends on itself`)
+      } else if (!apps.has(dep)) {
+        errors.push(`${app.name} depends on unknown app: ${dep}`)
+      }
+    }
+  }
+
+  // Depth-first search; reaching an app still on the stack closes a cycle
+  const visited = new Set<string>()
+  const stack: string[] = []
+
+  const visit = (name: string): void => {
+    const onStack = stack.indexOf(name)
+    if (onStack !== -1) {
+      errors.push(`Dependency cycle: ${[...stack.slice(onStack), name].join(' -> ')}`)
+      return
+    }
+    if (visited.has(name)) return
+
+    visited.add(name)
+    stack.push(name)
+    for (const dep of apps.get(name)?.depends_on || []) {
+      if (dep !== name && apps.has(dep)) visit(dep)
+    }
+    stack.pop()
+  }
+
+  for (const name of apps.keys()) {
+    visit(name)
+  }
+
+  return errors
+}
+
+// Run a task per app, each only after the apps it depends on succeeded
+// Independent apps run in parallel up to `concurrency`. Dependencies outside
+// `apps` count as satisfied; dependents of a failed app are skipped.
+export async function runInDependencyOrder(
+  apps: AppConfig[],
+  options: {
+    concurrency: number
+    run: (app: AppConfig) => Promise<boolean>
+    onSkip?: (app: AppConfig, failedDependency: string) => void
+  }
+): Promise<Map<string, OrderedStatus>> {
+  const selected = new Map(apps.map(app => [app.name, app]))
+  const status = new Map<string, OrderedStatus>()
+  const pending = new Set(selected.keys())
+  const running = new Map<string, Promise<void>>()
+  const limit = Math.max(options.concurrency, 1)
+
+  while (pending.size > 0 || running.size > 0) {
+    let skipped = false
+
+    for (const name of pending) {
+      if (running.size >= limit) break
+
+      const app = selected.get(name)!
+      const deps = app.depends_on.filter(dep => selected.has(dep))
+
+      const failed = deps.find(dep => status.has(dep) && status.get(dep) !== 'success')
+      if (failed) {
+        pending.delete(name)
+        status.set(name, 'skipped')
+        options.onSkip?.(app, failed)
+        skipped = true
+        continue
+      }
+
+      if (deps.every(dep => status.get(dep) === 'success')) {
+        pending.delete(name)
+        const task = options.run(app)
+          .then(ok => { status.set(name, ok ? 'success' : 'failed') })
+          .catch(() => { status.set(name, 'failed') })
+          .finally(() => { running.delete(name) })
+        running.set(name, task)
+      }
+    }
+
+    if (running.size === 0) {
+      // A skip can make more dependents skippable - take another pass
+      if (skipped) continue
+
+      // Nothing runnable left (only possible with a cycle)
+      if (pending.size > 0) {
+        throw new Error(`Unresolvable dependencies: ${[...pending].join(', ')}`)
+      }
+      break
+    }
+
+    await Promise.race(running.values())
+  }
+
+  return status
+}
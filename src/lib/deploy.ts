@@ -1,13 +1,69 @@
 import { execa } from 'execa'
-import { mkdir, appendFile } from 'fs/promises'
-import { existsSync } from 'fs'
-import { join, dirname } from 'path'
-import type { AppConfig, EngineConfig, ModuleConfig } from '../schemas/index.js'
-import { RUNTIME_COMMANDS } from '../schemas/app.js'
+import { mkdir, appendFile, readFile } from 'fs/promises'
+import { existsSync, createWriteStream } from 'fs'
+import { createInterface } from 'readline'
+import type { Readable } from 'stream'
+import { createHash } from 'crypto'
+import { join, dirname, relative } from 'path'
+import type {
+  AppConfig,
+  EngineConfig,
+  ModuleConfig,
+  DeploymentConfig,
+  Defaults,
+  PortAllocations,
+  Hooks,
+  HookName,
+  HealthConfig,
+  DeploymentRecord,
+  BlueGreenPair,
+  Runtime,
+} from '../schemas/index.js'
+import { DeploymentConfigSchema, DefaultsSchema } from '../schemas/config.js'
 import * as git from './git.js'
 import * as pm2 from './pm2.js'
-import { recordDeployment, generateDeploymentId } from './state.js'
-import { APPS_LOG_DIR, LOG_DIR } from '../utils/paths.js'
+import {
+  recordDeployment,
+  generateDeploymentId,
+  loadDeployments,
+  findDeployment,
+  getLastSuccessfulDeployment,
+  getPreviousSuccessfulDeployment,
+  allocatePortPair,
+  setActivePort,
+  loadPortAllocations,
+  getModulePort,
+} from './state.js'
+import { generateNginxConfig, applyNginxConfig, getNginxConfigName } from './nginx.js'
+import { loadGlobalConfig } from './config.js'
+import { waitForHealthy, recordHealth } from './health.js'
+import { acquireDeployLock, DeployLockedError } from './lock.js'
+import { verifyArtifact, unpackArtifact, type Artifact } from './artifacts.js'
+import { resolveNodeVersion, usesNode, nodeEnv, nodeBinary, getPathNodeVersion, type NodeInstall } from './node.js'
+import {
+  resolveRuntime,
+  describeRuntime,
+  directoryReader,
+  commitReader,
+  type DetectedRuntime,
+} from './runtime.js'
+import {
+  createEventRecorder,
+  type DeployKind,
+  type DeployEventHandler,
+  type DeployEventRecorder,
+} from './events.js'
+import {
+  getReleasePaths,
+  getReleaseDir,
+  getCurrentRelease,
+  createRelease,
+  createEmptyRelease,
+  activateRelease,
+  removeRelease,
+  pruneReleases,
+} from './releases.js'
+import { APPS_LOG_DIR, LOG_DIR, NGINX_AVAILABLE, NODE_VERSIONS_DIR } from '../utils/paths.js'
 import { log } from '../utils/logger.js'
 
 // Deployment result
@@ -17,6 +73,30 @@ export interface DeployResult {
   duration: number
   commit?: string
   error?: string
+  rolledBack?: boolean // Previous release was restored after a failure
+  skipped?: boolean // Commit was already live, so the build was skipped
+}
+
+// Stream a line of command output came from
+export type OutputStream = 'stdout' | 'stderr'
+
+// Receives command output line by line while it runs
+export type OutputHandler = (line: string, stream: OutputStream) => void
+
+// Options shared by all deploy entry points
+export interface BaseDeployOptions {
+  onOutput?: OutputHandler // Live command output (always written to the deployment log too)
+  onEvent?: DeployEventHandler // Progress events (also written to <id>.events.jsonl)
+  wait?: boolean // Wait for a deploy already running in another process instead of failing
+}
+
+// Options for deployApp
+export interface DeployOptions extends BaseDeployOptions {
+  ref?: string // Branch, tag or commit to deploy instead of the configured branch head
+  rollbackOf?: string // Deployment ID being reverted (recorded on the new deployment)
+  rollbackTo?: string // Deployment ID being restored by a rollback
+  force?: boolean // Build even if the commit is already live
+  artifact?: Artifact // Deploy this prebuilt tarball instead of checking out and building
 }
 
 // Ensure log directories exist
@@ -34,41 +114,698 @@ async function logToFile(path: string, message: string): Promise<void> {
   await appendFile(path, `[${timestamp}] ${message}\n`)
 }
 
-// Run a shell command with logging
+// Start the event stream of a deploy, written next to its text log
+function startEvents(
+  logDir: string,
+  deploymentId: string,
+  name: string,
+  kind: DeployKind,
+  options: BaseDeployOptions & { ref?: string }
+): DeployEventRecorder {
+  const events = createEventRecorder({
+    deploymentId,
+    name,
+    file: join(logDir, `${deploymentId}.events.jsonl`),
+    onEvent: options.onEvent,
+  })
+  events.emit({ type: 'deploy.started', kind, ref: options.ref })
+  return events
+}
+
+// Deployment behavior and server defaults from global config
+export interface DeploySettings {
+  deployment: DeploymentConfig
+  defaults: Defaults
+}
+
+// Load deploy settings (schema defaults if the global config is unavailable)
+export async function loadDeploySettings(): Promise<DeploySettings> {
+  try {
+    const globalConfig = await loadGlobalConfig()
+    return {
+      deployment: DeploymentConfigSchema.parse(globalConfig.deployment ?? {}),
+      defaults: DefaultsSchema.parse(globalConfig.server.defaults ?? {}),
+    }
+  } catch {
+    return {
+      deployment: DeploymentConfigSchema.parse({}),
+      defaults: DefaultsSchema.parse({}),
+    }
+  }
+}
+
+// State shared by the steps of one deployment
+interface DeployContext {
+  logFile: string
+  settings: DeploySettings
+  onOutput?: OutputHandler
+  signal?: AbortSignal // Aborted by `shyp deploy cancel`
+  events: DeployEventRecorder
+}
+
+// Show a step on the console and start it in the event stream
+function step(ctx: DeployContext | undefined, message: string): void {
+  log.step(message)
+  ctx?.events.step(message.replace(/\.\.\.$/, ''))
+}
+
+// Raised when a command runs past its timeout
+export class CommandTimeoutError extends Error {
+  constructor(cmd: string, public readonly timeoutSeconds: number) {
+    super(`Command timed out after ${timeoutSeconds}s: ${cmd}`)
+    this.name = 'CommandTimeoutError'
+  }
+}
+
+// Raised when a deploy is cancelled while it runs
+export class DeployCancelledError extends Error {
+  constructor() {
+    super('Deployment cancelled')
+    this.name = 'DeployCancelledError'
+  }
+}
+
+// Stop between steps once a cancel has been requested
+function throwIfCancelled(ctx: DeployContext): void {
+  if (ctx.signal?.aborted) {
+    throw new DeployCancelledError()
+  }
+}
+
+// Status recorded for a deploy that threw
+function failureStatus(error: unknown): 'failed' | 'timed_out' | 'cancelled' {
+  if (error instanceof DeployCancelledError) return 'cancelled'
+  if (error instanceof CommandTimeoutError) return 'timed_out'
+  return 'failed'
+}
+
+// Grace period between SIGTERM and SIGKILL when killing a timed out command
+const KILL_GRACE_MS = 10_000
+
+// Kill a command and everything it spawned (it runs as its own process group)
+function killProcessGroup(pid: number | undefined): void {
+  if (!pid) return
+
+  const signal = (sig: NodeJS.Signals) => {
+    try {
+      process.kill(-pid, sig)
+    } catch {
+      // Group already gone
+    }
+  }
+
+  signal('SIGTERM')
+  setTimeout(() => signal('SIGKILL'), KILL_GRACE_MS).unref()
+}
+
+// Stderr lines kept for the error summary when a command fails
+const STDERR_TAIL_LINES = 50
+
+// Run a shell command, streaming each output line to the deployment log
+// With a timeout (seconds), the whole process tree is killed once it expires;
+// the same happens when the deploy is cancelled.
 async function runCommand(
   cmd: string,
   options: {
     cwd: string
     env?: Record<string, string>
-    logFile?: string
-  }
+    timeout?: number
+  },
+  ctx: DeployContext
 ): Promise<void> {
+  throwIfCancelled(ctx)
   log.command(cmd)
+  await logToFile(ctx.logFile, `$ ${cmd}`)
 
-  const result = await execa('bash', ['-c', cmd], {
+  // Own process group, so a timeout also reaches whatever the shell spawned
+  const subprocess = execa('bash', ['-c', cmd], {
     cwd: options.cwd,
     env: { ...process.env, ...options.env },
     reject: false,
+    detached: true,
+    buffer: false,
   })
 
-  if (options.logFile) {
-    if (result.stdout) await logToFile(options.logFile, `STDOUT: ${result.stdout}`)
-    if (result.stderr) await logToFile(options.logFile, `STDERR: ${result.stderr}`)
+  // The group outlives shyp unless it is killed on the way out
+  const onExit = () => killProcessGroup(subprocess.pid)
+  process.on('exit', onExit)
+
+  let timedOut = false
+  const timer = options.timeout
+    ? setTimeout(() => {
+      timedOut = true
+      killProcessGroup(subprocess.pid)
+    }, options.timeout * 1000)
+    : undefined
+
+  let cancelled = false
+  const onCancel = () => {
+    cancelled = true
+    killProcessGroup(subprocess.pid)
+  }
+  ctx.signal?.addEventListener('abort', onCancel, { once: true })
+
+  const logStream = createWriteStream(ctx.logFile, { flags: 'a' })
+  const stderrTail: string[] = []
+
+  // Write each line as it arrives: "[timestamp] [stdout] line"
+  const pipeLines = (input: Readable | null, stream: OutputStream) =>
+    new Promise<void>(resolve => {
+      if (!input) return resolve()
+
+      const lines = createInterface({ input, crlfDelay: Infinity })
+      lines.on('line', line => {
+        logStream.write(`[${new Date().toISOString()}] [${stream}] ${line}\n`)
+        if (stream === 'stderr') {
+          stderrTail.push(line)
+          if (stderrTail.length > STDERR_TAIL_LINES) stderrTail.shift()
+        }
+        ctx.onOutput?.(line, stream)
+        ctx.events.emit({ type: 'command.output', stream, line })
+      })
+      lines.on('close', resolve)
+    })
+
+  const [result] = await Promise.all([
+    subprocess,
+    pipeLines(subprocess.stdout, 'stdout'),
+    pipeLines(subprocess.stderr, 'stderr'),
+  ])
+  clearTimeout(timer)
+  ctx.signal?.removeEventListener('abort', onCancel)
+  process.off('exit', onExit)
+  await new Promise(resolve => logStream.end(resolve))
+
+  if (cancelled) {
+    throw new DeployCancelledError()
+  }
+  if (timedOut) {
+    throw new CommandTimeoutError(cmd, options.timeout!)
   }
 
   // Check for command failure
   if (result.exitCode !== 0) {
-    // Show error output to user
-    if (result.stderr) {
+    // Show error output to user (unless it was already streamed live)
+    if (stderrTail.length > 0 && !ctx.onOutput) {
       log.error('Build output:')
-      console.error(result.stderr)
+      console.error(stderrTail.join('\n'))
     }
     throw new Error(`Command failed with exit code ${result.exitCode}`)
   }
 }
 
+// Where and how hook commands run
+interface HookOptions {
+  cwd: string
+  env?: Record<string, string>
+  timeout?: number
+}
+
+// Run a lifecycle hook's command(s) in order (no-op if the hook is not configured)
+async function runHook(
+  hooks: Hooks | undefined,
+  hook: HookName,
+  options: HookOptions,
+  ctx: DeployContext
+): Promise<void> {
+  const commands = hooks?.[hook]
+  if (!commands) return
+
+  step(ctx, `Running ${hook} hook...`)
+  await logToFile(ctx.logFile, `Running ${hook} hook`)
+
+  for (const cmd of [commands].flat()) {
+    await runCommand(cmd, options, ctx)
+  }
+}
+
+// Run a hook whose failure must not fail the deploy (post_start, on_failure)
+async function runNonFatalHook(
+  hooks: Hooks | undefined,
+  hook: HookName,
+  options: HookOptions,
+  ctx: DeployContext
+): Promise<void> {
+  try {
+    await runHook(hooks, hook, options, ctx)
+  } catch (hookError) {
+    const message = hookError instanceof Error ? hookError.message : String(hookError)
+    log.warn(`${hook} hook failed: ${message}`)
+    await logToFile(ctx.logFile, `${hook} hook failed: ${message}`)
+  }
+}
+
+// Environment passed to hooks on top of the app's env
+function hookEnv(
+  env: Record<string, string> | undefined,
+  deploy: { name: string; deploymentId: string; commit?: string; dir: string }
+): Record<string, string> {
+  return {
+    ...env,
+    SHYP_APP: deploy.name,
+    SHYP_DEPLOYMENT_ID: deploy.deploymentId,
+    SHYP_COMMIT: deploy.commit || '',
+    SHYP_RELEASE_DIR: deploy.dir,
+  }
+}
+
+// Build timeout for an app in seconds (app config, else server default)
+function getBuildTimeout(config: AppConfig, settings: DeploySettings): number {
+  return config.build?.timeout ?? settings.defaults.build_timeout
+}
+
+// Directory an app builds and runs in: its `root` inside a release (or current)
+function getAppDir(config: AppConfig, releaseDir: string): string {
+  return config.root ? join(releaseDir, config.root) : releaseDir
+}
+
+// Node.js install to run a deploy's commands with (null leaves PATH alone)
+// A configured node_version must be installed; a version asked for by the repo
+// or the global default falls back to the node on PATH with a warning.
+async function resolveNode(
+  options: { configured?: string; runtime?: Runtime; dirs: string[] },
+  ctx: DeployContext
+): Promise<NodeInstall | null> {
+  const { runtime } = await resolveRuntime(options.runtime, options.dirs.map(directoryReader))
+  if (!usesNode(runtime)) {
+    return null
+  }
+
+  const resolution = await resolveNodeVersion({
+    configured: options.configured,
+    dirs: options.dirs,
+    fallback: ctx.settings.defaults.node_version,
+  })
+  if (!resolution) {
+    return null
+  }
+
+  const { spec, source, install } = resolution
+  if (!install) {
+    if (source === 'config') {
+      throw new Error(`Node.js ${spec} is not installed (install it with nvm or fnm, or under ${NODE_VERSIONS_DIR})`)
+    }
+    log.warn(`Node.js ${spec} (from ${source}) is not installed, using the node on PATH`)
+    await logToFile(ctx.logFile, `Node.js ${spec} (from ${source}) is not installed, using the node on PATH`)
+    return null
+  }
+
+  await logToFile(ctx.logFile, `Using Node.js ${install.version} for ${spec} (from ${source})${install.binDir ? ` in ${install.binDir}` : ''}`)
+  return install
+}
+
+// Directories of a release to read project files from: the app's root, then the repo root
+function getProjectDirs(config: AppConfig, releaseDir: string): string[] {
+  return [...new Set([getAppDir(config, releaseDir), releaseDir])]
+}
+
+// Runtime of an app's release (`auto` is detected from its lockfile)
+function resolveAppRuntime(config: AppConfig, releaseDir: string): Promise<DetectedRuntime> {
+  return resolveRuntime(config.runtime, getProjectDirs(config, releaseDir).map(directoryReader))
+}
+
+// Node.js install for an app's release (config, then the release's .nvmrc / engines.node, then default)
+function resolveAppNode(config: AppConfig, releaseDir: string, ctx: DeployContext): Promise<NodeInstall | null> {
+  return resolveNode({
+    configured: config.node_version,
+    runtime: config.runtime,
+    dirs: getProjectDirs(config, releaseDir),
+  }, ctx)
+}
+
+// Node.js install for an engine, or one of its modules (modules use the engine's node_version)
+function resolveEngineNode(
+  engine: EngineConfig,
+  ctx: DeployContext,
+  moduleConfig?: ModuleConfig
+): Promise<NodeInstall | null> {
+  const dirs = moduleConfig ? [getModulePath(engine, moduleConfig), engine.server.path] : [engine.server.path]
+  return resolveNode({
+    configured: engine.server.node_version,
+    runtime: moduleConfig ? moduleConfig.runtime : engine.server.runtime,
+    dirs: [...new Set(dirs)],
+  }, ctx)
+}
+
+// Build command for an app (runtime default: install + build)
+function getBuildCommand(config: AppConfig, runtime: DetectedRuntime): string {
+  return config.build?.command || runtime.commands.build
+}
+
+// A build command without its leading install step ('' if it only installs),
+// or null when it does not start with the install command
+function stripInstallStep(buildCmd: string, installCmd: string): string | null {
+  if (buildCmd === installCmd) return ''
+  return buildCmd.startsWith(`${installCmd} && `) ? buildCmd.slice(installCmd.length + 4) : null
+}
+
+// Start command for an app's PM2 process
+function getStartCommand(config: AppConfig, runtime: DetectedRuntime): string {
+  return config.start?.command || runtime.commands.start
+}
+
+// How PM2 runs a start command that is a single script file: a JS file on the
+// resolved node, a deno script through `deno run -A`. Commands like `npm start`
+// are left to PM2 (it runs them through bash); their node comes from PATH.
+function getInterpreter(
+  runtime: DetectedRuntime,
+  startCmd: string,
+  node: NodeInstall | null
+): { interpreter?: string; interpreterArgs?: string } {
+  if (runtime.runtime === 'deno') {
+    return /^\S+\.(ts|tsx|js|jsx|mjs)$/.test(startCmd)
+      ? { interpreter: 'deno', interpreterArgs: 'run -A' }
+      : {}
+  }
+  return /^\S+\.(js|mjs|cjs)$/.test(startCmd) ? { interpreter: nodeBinary(node) } : {}
+}
+
+// PM2 instances and memory limit for an app
+function getProcessResources(config: AppConfig): { instances: number; memory: string } {
+  return {
+    instances: config.resources?.instances || 1,
+    memory: config.resources?.memory || '512M',
+  }
+}
+
+// Get the PM2 process name for an app
+function getAppPM2Name(config: AppConfig): string {
+  return config.pm2?.name || config.name
+}
+
+// Process name suffixes for the two halves of a blue/green pair
+const BLUE_GREEN_COLORS = ['blue', 'green'] as const
+
+// Get the PM2 process name serving an app (blue/green apps run as <name>-blue / <name>-green)
+export function getAppProcessName(config: AppConfig, ports: PortAllocations): string {
+  const pm2Name = getAppPM2Name(config)
+  const pair = ports.blue_green[config.name]
+  if (config.deploy?.strategy !== 'blue_green' || !pair) {
+    return pm2Name
+  }
+  return `${pm2Name}-${BLUE_GREEN_COLORS[pair.ports.indexOf(pair.active)]}`
+}
+
+// Process name and port of the idle half of a blue/green pair (where the next release starts)
+function getIdleTarget(config: AppConfig, pair: BlueGreenPair): { name: string; port: number } {
+  const idleIndex = pair.ports[0] === pair.active ? 1 : 0
+  return {
+    name: `${getAppPM2Name(config)}-${BLUE_GREEN_COLORS[idleIndex]}`,
+    port: pair.ports[idleIndex],
+  }
+}
+
+// Replace a PM2 process for an app (defaults: app's name and port, running from current)
+async function startAppProcess(
+  config: AppConfig,
+  ctx: DeployContext,
+  target: { name?: string; port?: number; releaseDir?: string } = {}
+): Promise<void> {
+  const pm2Name = target.name || getAppPM2Name(config)
+  const port = target.port ?? config.port
+  const resources = getProcessResources(config)
+
+  // Run from the current symlink so a plain pm2 restart picks up the live release
+  const releaseDir = target.releaseDir || getReleasePaths(config.path).current
+  const runtime = await resolveAppRuntime(config, releaseDir)
+  const startCmd = getStartCommand(config, runtime)
+  const node = await resolveAppNode(config, releaseDir, ctx)
+
+  step(ctx, `Starting ${pm2Name}...`)
+
+  // Delete old process and start fresh
+  await pm2.deleteProcess(pm2Name)
+
+  // Build environment with PORT from config
+  const processEnv: Record<string, string> = { ...config.env, ...nodeEnv(node) }
+  if (port) {
+    processEnv.PORT = String(port)
+  }
+
+  await pm2.startProcess(pm2Name, startCmd, {
+    cwd: getAppDir(config, releaseDir),
+    env: processEnv,
+    instances: resources.instances,
+    maxMemory: resources.memory,
+    ...getInterpreter(runtime, startCmd, node),
+  })
+
+  await pm2.saveProcessList()
+}
+
+// Wait for the app's health endpoint after start (throws if it never becomes healthy)
+// Skipped when the app has no health block, unless `required` is set.
+async function verifyAppHealth(
+  config: AppConfig,
+  ctx: DeployContext,
+  options: { port?: number; required?: boolean } = {}
+): Promise<void> {
+  const health = config.health ?? (options.required ? {} : null)
+  const port = options.port ?? health?.port ?? config.port
+  if (!health || !port) return
+
+  await verifyHealth(config.name, health, port, ctx)
+}
+
+// Poll a health endpoint on localhost and record the result under `name`
+async function verifyHealth(
+  name: string,
+  health: HealthConfig,
+  port: number,
+  ctx: DeployContext
+): Promise<void> {
+  const url = `http://127.0.0.1:${port}${health.path ?? '/'}`
+  step(ctx, `Checking health at ${url}...`)
+
+  const result = await waitForHealthy(url, {
+    attempts: ctx.settings.deployment.health_check_retries + 1,
+    intervalMs: (health.interval ?? 30) * 1000,
+    timeoutMs: (health.timeout ?? 5) * 1000,
+  })
+  await recordHealth(name, result)
+
+  if (!result.healthy) {
+    throw new Error(`Health check failed for ${url}: ${result.error}`)
+  }
+
+  await logToFile(ctx.logFile, `Health check passed (${result.responseTime}ms)`)
+}
+
+// Blue/green switch: start the release on the idle port of the pair, health-check
+// it, point nginx at it, then remove the old process. The old process keeps
+// serving until nginx has switched, and is left alone if anything fails before.
+// `onActivated` runs once `current` points at the release.
+async function switchBlueGreen(
+  config: AppConfig,
+  releaseId: string,
+  ctx: DeployContext,
+  onActivated?: () => void
+): Promise<void> {
+  if (!config.port) {
+    throw new Error('Blue/green deploys need a port in the app config')
+  }
+  if (!config.domain) {
+    throw new Error('Blue/green deploys need a domain (nginx switches between the ports)')
+  }
+
+  const pm2Name = getAppPM2Name(config)
+  const pair = await allocatePortPair(config.name, config.port)
+  const { name: idleName, port: idlePort } = getIdleTarget(config, pair)
+  const liveName = `${pm2Name}-${BLUE_GREEN_COLORS[pair.ports.indexOf(pair.active)]}`
+
+  await startAppProcess(config, ctx, {
+    name: idleName,
+    port: idlePort,
+    releaseDir: getReleaseDir(config.path, releaseId),
+  })
+
+  try {
+    await verifyAppHealth(config, ctx, { port: idlePort, required: true })
+
+    step(ctx, `Switching nginx to port ${idlePort}...`)
+    await applyNginxConfig(config.name, generateNginxConfig({ ...config, port: idlePort }))
+  } catch (error) {
+    await pm2.deleteProcess(idleName)
+    await pm2.saveProcessList()
+    throw error
+  }
+
+  await setActivePort(config.name, idlePort)
+  await activateRelease(config.path, releaseId)
+  onActivated?.()
+  await logToFile(ctx.logFile, `Switched traffic to ${idleName} on port ${idlePort}`)
+
+  // The new release is live now, so failing to clean up must not fail the deploy
+  step(ctx, `Stopping ${liveName}...`)
+  try {
+    await pm2.deleteProcess(liveName)
+    await pm2.deleteProcess(pm2Name) // Process from before blue/green was enabled
+    await pm2.saveProcessList()
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    log.warn(`Could not stop ${liveName}: ${message}`)
+    await logToFile(ctx.logFile, `Could not stop ${liveName}: ${message}`)
+  }
+}
+
+// Lockfiles checked for dependency changes, in order of preference
+const LOCKFILES = ['package-lock.json', 'bun.lock', 'bun.lockb', 'pnpm-lock.yaml', 'yarn.lock', 'deno.lock']
+
+// Hash the lockfile in a release directory (null if it has none)
+async function hashLockfile(dir: string): Promise<string | null> {
+  for (const file of LOCKFILES) {
+    const path = join(dir, file)
+    if (existsSync(path)) {
+      return createHash('sha256').update(await readFile(path)).digest('hex')
+    }
+  }
+  return null
+}
+
+// Make a release live: switch current and restart the app (or rerun its deploy script)
+async function switchToRelease(
+  config: AppConfig,
+  releaseId: string,
+  ctx: DeployContext
+): Promise<void> {
+  step(ctx, `Activating release ${releaseId}...`)
+
+  if (config.deploy?.mode === 'script' && config.deploy.script) {
+    await activateRelease(config.path, releaseId)
+    const releaseDir = getReleaseDir(config.path, releaseId)
+    const node = await resolveAppNode(config, releaseDir, ctx)
+    step(ctx, `Running deploy script: ${config.deploy.script}`)
+    await runCommand(`chmod +x ${config.deploy.script} && ${config.deploy.script}`, {
+      cwd: getAppDir(config, releaseDir),
+      env: { ...config.env, ...nodeEnv(node) },
+      timeout: getBuildTimeout(config, ctx.settings),
+    }, ctx)
+  } else if (config.deploy?.strategy === 'blue_green') {
+    await switchBlueGreen(config, releaseId, ctx)
+  } else {
+    await activateRelease(config.path, releaseId)
+    await startAppProcess(config, ctx)
+  }
+
+  await logToFile(ctx.logFile, `Activated release ${releaseId}`)
+}
+
+// Record of an app's live release (latest success if it aged out of history)
+async function findLiveRecord(
+  config: AppConfig,
+  liveRelease: string | null
+): Promise<DeploymentRecord | null> {
+  if (!liveRelease) return null
+
+  const deployments = await loadDeployments()
+  return findDeployment(deployments, config.name, liveRelease) ??
+    getLastSuccessfulDeployment(deployments, config.name)
+}
+
+// Whether the app's live PM2 process is running (never for script deploys,
+// which are rerun instead)
+async function isAppOnline(config: AppConfig): Promise<boolean> {
+  if (config.deploy?.mode === 'script' && config.deploy.script) return false
+
+  const name = getAppProcessName(config, await loadPortAllocations())
+  return (await pm2.getProcess(name))?.status === 'online'
+}
+
+// Whether a commit is already what the live release runs
+function isLive(liveRecord: DeploymentRecord, sha: string): boolean {
+  return liveRecord.status === 'success' && liveRecord.sha === sha
+}
+
+// Clone or fetch the app's repo and resolve the commit to deploy
+async function resolveIncomingCommit(
+  config: AppConfig,
+  ref?: string,
+  ctx?: DeployContext
+): Promise<string> {
+  const { repo } = getReleasePaths(config.path)
+
+  step(ctx, 'Checking repository...')
+  await git.ensureCloned(config.repo, repo, {
+    branch: config.branch,
+    sshKey: config.sshKey,
+    noCheckout: true,
+    git: config.git,
+  })
+
+  step(ctx, 'Fetching latest changes...')
+  await git.fetch(repo, { sshKey: config.sshKey, tags: !!ref, depth: config.git?.depth })
+  return ref
+    ? git.resolveRemoteRef(repo, ref, { sshKey: config.sshKey })
+    : git.resolveCommit(repo, `origin/${config.branch}`)
+}
+
+// Aborted when shyp gets SIGINT or SIGTERM during a deploy
+const interruption = new AbortController()
+let interruptedBy: NodeJS.Signals | null = null
+let activeDeploys = 0
+
+// Ctrl+C or SIGTERM cancels running deploys like `shyp deploy cancel` does
+// (builds run in their own process group, so they would not get the signal)
+function onInterrupt(signal: NodeJS.Signals): void {
+  if (interruptedBy) return
+  interruptedBy = signal
+  log.warn(`Received ${signal}, cancelling deploy...`)
+  interruption.abort()
+}
+
+// Run a deploy while holding the per-app lock (engines and their modules share one)
+async function withDeployLock(
+  name: string,
+  options: BaseDeployOptions,
+  fn: (signal: AbortSignal) => Promise<DeployResult>
+): Promise<DeployResult> {
+  let lock
+  try {
+    lock = await acquireDeployLock(name, {
+      wait: options.wait,
+      onWait: pid => log.step(`Waiting for deploy of ${name} by PID ${pid} to finish...`),
+    })
+  } catch (error) {
+    if (error instanceof DeployLockedError) {
+      return { success: false, deploymentId: '', duration: 0, error: error.message }
+    }
+    throw error
+  }
+
+  if (activeDeploys++ === 0) {
+    process.on('SIGINT', onInterrupt)
+    process.on('SIGTERM', onInterrupt)
+  }
+
+  try {
+    return await fn(AbortSignal.any([lock.signal, interruption.signal]))
+  } finally {
+    await lock.release()
+
+    // Once every interrupted deploy is recorded, exit as the signal would have
+    if (--activeDeploys === 0) {
+      process.off('SIGINT', onInterrupt)
+      process.off('SIGTERM', onInterrupt)
+      if (interruptedBy) process.kill(process.pid, interruptedBy)
+    }
+  }
+}
+
 // Deploy a standard app
-export async function deployApp(config: AppConfig): Promise<DeployResult> {
+// Each deploy is checked out and built in <path>/releases/<id>; the
+// <path>/current symlink is only switched once the build has succeeded.
+export async function deployApp(
+  config: AppConfig,
+  options: DeployOptions = {}
+): Promise<DeployResult> {
+  return withDeployLock(config.name, options, signal => runAppDeploy(config, options, signal))
+}
+
+async function runAppDeploy(
+  config: AppConfig,
+  options: DeployOptions,
+  signal?: AbortSignal
+): Promise<DeployResult> {
   const deploymentId = generateDeploymentId()
   const startTime = Date.now()
 
@@ -76,73 +813,196 @@ export async function deployApp(config: AppConfig): Promise<DeployResult> {
   const logDir = await ensureLogDir(config.name)
   const logFile = join(logDir, `${deploymentId}.log`)
 
+  const settings = await loadDeploySettings()
+  const events = startEvents(logDir, deploymentId, config.name, options.rollbackOf ? 'rollback' : 'app', options)
+  const ctx: DeployContext = { logFile, settings, onOutput: options.onOutput, signal, events }
+  const previousRelease = await getCurrentRelease(config.path)
+  const liveRecord = await findLiveRecord(config, previousRelease)
+  let releaseCreated = false
+  let releaseActivated = false
+  let hookOptions: HookOptions | undefined
+  let runtime: DetectedRuntime | undefined
+
   try {
     await logToFile(logFile, `=== Starting deployment for ${config.name} ===`)
 
-    // Ensure repo is cloned
-    log.step('Checking repository...')
-    await git.ensureCloned(config.repo, config.path, {
-      branch: config.branch,
-      sshKey: config.sshKey,
-    })
+    let sha: string | undefined
+    let commit: string | undefined
+    let releaseDir: string
+
+    if (options.artifact) {
+      // Prebuilt artifact: unpacked into the app directory, no checkout and no build
+      step(ctx, 'Verifying artifact checksum...')
+      await verifyArtifact(options.artifact)
+      await logToFile(logFile, `Artifact ${options.artifact.file} (sha256 ${options.artifact.sha256})`)
+
+      step(ctx, `Unpacking artifact into release ${deploymentId}...`)
+      releaseDir = await createEmptyRelease(config.path, deploymentId)
+      releaseCreated = true
+      const metadata = await unpackArtifact(options.artifact.file, getAppDir(config, releaseDir))
+      sha = metadata.commit
+      commit = sha?.slice(0, 7)
+      await logToFile(logFile, `Unpacked artifact${sha ? ` built from ${sha}` : ''} into ${releaseDir}`)
+    } else {
+      sha = await resolveIncomingCommit(config, options.ref, ctx)
+      if (options.ref) {
+        await logToFile(logFile, `Resolved ${options.ref} to ${sha}`)
+      }
+
+      throwIfCancelled(ctx)
 
-    // Pull latest changes
-    log.step('Pulling latest changes...')
-    await git.pull(config.path, config.branch, { sshKey: config.sshKey })
-    const commit = await git.getShortCommit(config.path)
-    await logToFile(logFile, `Pulled commit: ${commit}`)
+      // Same commit already live - restart the existing release instead of rebuilding,
+      // unless its process is still running (e.g. a repeated webhook)
+      if (!options.force && previousRelease && liveRecord && isLive(liveRecord, sha)) {
+        step(ctx, `Commit ${liveRecord.commit} is already live, skipping build...`)
+        await logToFile(logFile, `Commit ${sha} unchanged since ${liveRecord.id}, skipping build`)
+        if (await isAppOnline(config)) {
+          await logToFile(logFile, 'Process already online, not restarting')
+        } else {
+          await switchToRelease(config, previousRelease, ctx)
+        }
 
-    // Stop existing process (for PM2 deployments)
-    if (config.deploy?.mode !== 'script') {
-      const pm2Name = config.pm2?.name || config.name
-      log.step(`Stopping ${pm2Name}...`)
-      await pm2.stopProcess(pm2Name)
+        const duration = Date.now() - startTime
+        await logToFile(logFile, `=== Deployment complete (${duration}ms) ===`)
+
+        await recordDeployment(config.name, {
+          id: deploymentId,
+          commit: liveRecord.commit,
+          sha,
+          ref: options.ref,
+          timestamp: new Date().toISOString(),
+          status: 'success',
+          duration_ms: duration,
+          lockfile_hash: liveRecord.lockfile_hash,
+          build_skipped: true,
+          release: previousRelease,
+          runtime: liveRecord.runtime,
+          node_version: liveRecord.node_version,
+        })
+        await events.end({ type: 'deploy.succeeded', commit: liveRecord.commit, duration_ms: duration, skipped: true })
+
+        return {
+          success: true,
+          deploymentId,
+          duration,
+          commit: liveRecord.commit,
+          skipped: true,
+        }
+      }
+
+      // Check out into a fresh release directory
+      step(ctx, `Creating release ${deploymentId}...`)
+      releaseDir = await createRelease(config.path, deploymentId, sha, {
+        sshKey: config.sshKey,
+        git: config.git,
+      })
+      releaseCreated = true
+      commit = await git.getShortCommit(releaseDir)
+      await logToFile(logFile, `Checked out commit ${commit} into ${releaseDir}`)
     }
 
-    // Run build command (use runtime-specific default)
-    const runtime = config.runtime || 'npm'
-    const runtimeCmds = RUNTIME_COMMANDS[runtime]
-    const buildCmd = config.build?.command || runtimeCmds.build
-    log.step('Building...')
-    await runCommand(buildCmd, {
-      cwd: config.path,
-      env: config.env,
-      logFile,
-    })
+    // Monorepo apps build and run from their root
+    const appDir = getAppDir(config, releaseDir)
+    if (!existsSync(appDir)) {
+      throw new Error(`App root ${config.root} does not exist at ${commit}`)
+    }
+
+    // `runtime: auto` is settled from the checked-out files
+    runtime = await resolveAppRuntime(config, releaseDir)
+    await logToFile(logFile, `Runtime: ${describeRuntime(runtime)}`)
+
+    // Build, hooks and deploy script run with the app's node first on PATH
+    const node = await resolveAppNode(config, releaseDir, ctx)
+    const env = { ...config.env, ...nodeEnv(node) }
+
+    hookOptions = {
+      cwd: appDir,
+      env: hookEnv(env, { name: config.name, deploymentId, commit, dir: releaseDir }),
+      timeout: getBuildTimeout(config, settings),
+    }
+
+    // Artifacts arrive built, so there is no build (or build hooks) to run
+    let lockfileHash: string | null = null
+    let nodeVersion: string | undefined
+    if (!options.artifact) {
+      await runHook(config.hooks, 'pre_build', hookOptions, ctx)
+
+      // Run build command (use runtime-specific default)
+      let buildCmd = getBuildCommand(config, runtime)
+
+      // Reuse the live release's dependencies when the lockfile, runtime and Node.js
+      // version (native modules are built for it) have not changed, if the build
+      // command starts with the runtime's install step so it can be left out.
+      // Monorepo apps get the repo root's node_modules too.
+      lockfileHash = await hashLockfile(appDir) ?? await hashLockfile(releaseDir)
+      nodeVersion = usesNode(runtime.runtime) ? node?.version ?? await getPathNodeVersion() ?? undefined : undefined
+      const withoutInstall = stripInstallStep(buildCmd, runtime.commands.install)
+      const liveDir = previousRelease && getReleaseDir(config.path, previousRelease)
+      const moduleDirs = liveDir ? [...new Set([appDir, releaseDir])]
+        .map(dir => ({ dir, live: join(liveDir, relative(releaseDir, dir), 'node_modules') }))
+        .filter(({ live }) => existsSync(live)) : []
+      if (
+        !options.force && lockfileHash && withoutInstall !== null && moduleDirs.length > 0 &&
+        liveRecord?.lockfile_hash === lockfileHash && liveRecord.runtime === runtime.runtime &&
+        liveRecord.node_version === nodeVersion
+      ) {
+        step(ctx, 'Lockfile unchanged, reusing installed dependencies...')
+        for (const { dir, live } of moduleDirs) {
+          await runCommand(`cp -a "${live}" node_modules`, { cwd: dir }, ctx)
+        }
+        buildCmd = withoutInstall
+      }
+
+      if (buildCmd) {
+        step(ctx, 'Building...')
+        await runCommand(buildCmd, {
+          cwd: appDir,
+          env,
+          timeout: getBuildTimeout(config, settings),
+        }, ctx)
+      }
+
+      await runHook(config.hooks, 'post_build', hookOptions, ctx)
+    }
+
+    // Last chance to abort before anything live changes
+    await runHook(config.hooks, 'pre_start', hookOptions, ctx)
 
     // Start or run deploy script
     if (config.deploy?.mode === 'script' && config.deploy.script) {
       // Script-based deployment
-      log.step(`Running deploy script: ${config.deploy.script}`)
+      step(ctx, `Running deploy script: ${config.deploy.script}`)
       await runCommand(`chmod +x ${config.deploy.script} && ${config.deploy.script}`, {
-        cwd: config.path,
-        env: config.env,
-        logFile,
-      })
+        cwd: appDir,
+        env,
+        timeout: getBuildTimeout(config, settings),
+      }, ctx)
+
+      await activateRelease(config.path, deploymentId)
+      releaseActivated = true
+      await logToFile(logFile, `Activated release ${deploymentId}`)
+    } else if (config.deploy?.strategy === 'blue_green') {
+      // PM2 blue/green: old process serves until the new one is healthy
+      await switchBlueGreen(config, deploymentId, ctx, () => { releaseActivated = true })
+      await logToFile(logFile, `Activated release ${deploymentId}`)
     } else {
       // PM2-based deployment
-      const pm2Name = config.pm2?.name || config.name
-      const startCmd = config.start?.command || runtimeCmds.start
-
-      log.step(`Starting ${pm2Name}...`)
-
-      // Delete old process and start fresh
-      await pm2.deleteProcess(pm2Name)
+      await activateRelease(config.path, deploymentId)
+      releaseActivated = true
+      await logToFile(logFile, `Activated release ${deploymentId}`)
 
-      // Build environment with PORT from config
-      const processEnv: Record<string, string> = { ...config.env }
-      if (config.port) {
-        processEnv.PORT = String(config.port)
-      }
+      await startAppProcess(config, ctx)
+      await verifyAppHealth(config, ctx)
+      throwIfCancelled(ctx)
+    }
 
-      await pm2.startProcess(pm2Name, startCmd, {
-        cwd: config.path,
-        env: processEnv,
-        instances: config.resources?.instances || 1,
-        maxMemory: config.resources?.memory || '512M',
-      })
+    // The release is live; a failing post_start hook is only reported
+    await runNonFatalHook(config.hooks, 'post_start', hookOptions, ctx)
 
-      await pm2.saveProcessList()
+    // Remove releases beyond keep_releases
+    const pruned = await pruneReleases(config.path, settings.deployment.keep_releases)
+    if (pruned.length > 0) {
+      await logToFile(logFile, `Pruned releases: ${pruned.join(', ')}`)
     }
 
     const duration = Date.now() - startTime
@@ -152,10 +1012,19 @@ export async function deployApp(config: AppConfig): Promise<DeployResult> {
     await recordDeployment(config.name, {
       id: deploymentId,
       commit,
+      sha,
+      ref: options.ref,
       timestamp: new Date().toISOString(),
       status: 'success',
       duration_ms: duration,
+      rollback_of: options.rollbackOf,
+      rollback_to: options.rollbackTo,
+      lockfile_hash: lockfileHash ?? undefined,
+      artifact_sha256: options.artifact?.sha256,
+      runtime: runtime.runtime,
+      node_version: nodeVersion,
     })
+    await events.end({ type: 'deploy.succeeded', commit, duration_ms: duration })
 
     return {
       success: true,
@@ -168,14 +1037,180 @@ export async function deployApp(config: AppConfig): Promise<DeployResult> {
     const errorMessage = error instanceof Error ? error.message : String(error)
 
     await logToFile(logFile, `=== Deployment FAILED: ${errorMessage} ===`)
+    events.failStep()
+
+    // Cleanup below must still run after a cancel
+    const cleanupCtx: DeployContext = { ...ctx, signal: undefined }
+    const failureHookOptions = hookOptions ?? {
+      cwd: config.path,
+      env: hookEnv(config.env, { name: config.name, deploymentId, dir: config.path }),
+    }
+    await runNonFatalHook(config.hooks, 'on_failure', {
+      ...failureHookOptions,
+      env: { ...failureHookOptions.env, SHYP_DEPLOY_ERROR: errorMessage },
+    }, cleanupCtx)
+
+    // The new release went live and failed - put the previous one back
+    let rolledBack = false
+    if (releaseActivated && previousRelease && settings.deployment.rollback_on_failure) {
+      try {
+        await switchToRelease(config, previousRelease, cleanupCtx)
+        rolledBack = true
+        await logToFile(logFile, `=== Rolled back to release ${previousRelease} ===`)
+      } catch (rollbackError) {
+        const message = rollbackError instanceof Error ? rollbackError.message : String(rollbackError)
+        await logToFile(logFile, `=== Rollback FAILED: ${message} ===`)
+      }
+    }
+
+    // Discard the failed release unless it is still what current points at
+    if (releaseCreated && (!releaseActivated || rolledBack)) {
+      await removeRelease(config.path, deploymentId).catch(() => { })
+    }
+
+    await recordDeployment(config.name, {
+      id: deploymentId,
+      timestamp: new Date().toISOString(),
+      status: failureStatus(error),
+      duration_ms: duration,
+      error: errorMessage,
+      ref: options.ref,
+      rollback_of: options.rollbackOf,
+      rollback_to: options.rollbackTo,
+      artifact_sha256: options.artifact?.sha256,
+      runtime: runtime?.runtime,
+    })
+    await events.end({
+      type: 'deploy.failed',
+      error: errorMessage,
+      status: failureStatus(error),
+      duration_ms: duration,
+      rolledBack,
+    })
+
+    return {
+      success: false,
+      deploymentId,
+      duration,
+      error: errorMessage,
+      rolledBack,
+    }
+  }
+}
+
+// Roll an app back to an earlier successful deployment
+// Reactivates the old release directory when it is still on disk, otherwise
+// redeploys its commit. Defaults to the last good commit before the live one.
+export async function rollbackApp(
+  config: AppConfig,
+  options: BaseDeployOptions & { to?: string } = {}
+): Promise<DeployResult> {
+  return withDeployLock(config.name, options, signal => runAppRollback(config, options, signal))
+}
+
+async function runAppRollback(
+  config: AppConfig,
+  options: BaseDeployOptions & { to?: string },
+  signal?: AbortSignal
+): Promise<DeployResult> {
+  const state = await loadDeployments()
+  const live = getLastSuccessfulDeployment(state, config.name)
+
+  const target = options.to
+    ? findDeployment(state, config.name, options.to)
+    : getPreviousSuccessfulDeployment(state, config.name)
+
+  if (!target) {
+    const error = options.to
+      ? `Deployment not found: ${options.to}`
+      : 'No earlier successful deployment to roll back to'
+    return { success: false, deploymentId: '', duration: 0, error }
+  }
+
+  if (target.status !== 'success') {
+    return {
+      success: false,
+      deploymentId: '',
+      duration: 0,
+      error: `Deployment ${target.id} was not successful and cannot be restored`,
+    }
+  }
+
+  // Build-skipping deploys and rollbacks reuse an earlier release directory
+  const targetRelease = target.release ?? target.id
+
+  // Release directory was pruned - rebuild the commit from scratch
+  if (!existsSync(getReleaseDir(config.path, targetRelease))) {
+    if (!target.commit) {
+      return {
+        success: false,
+        deploymentId: '',
+        duration: 0,
+        error: `Release ${targetRelease} is no longer on disk and has no commit to rebuild`,
+      }
+    }
+    log.step(`Release ${targetRelease} no longer on disk, redeploying ${target.commit}...`)
+    return runAppDeploy(config, { ...options, ref: target.sha || target.commit, rollbackOf: live?.id, rollbackTo: target.id }, signal)
+  }
+
+  const deploymentId = generateDeploymentId()
+  const startTime = Date.now()
+
+  const logDir = await ensureLogDir(config.name)
+  const logFile = join(logDir, `${deploymentId}.log`)
+  const events = startEvents(logDir, deploymentId, config.name, 'rollback', options)
+
+  try {
+    await logToFile(logFile, `=== Rolling back ${config.name} to ${target.id} (${target.commit || 'artifact'}) ===`)
+
+    const ctx: DeployContext = {
+      logFile,
+      settings: await loadDeploySettings(),
+      onOutput: options.onOutput,
+      signal,
+      events,
+    }
+    await switchToRelease(config, targetRelease, ctx)
+
+    const duration = Date.now() - startTime
+    await logToFile(logFile, `=== Rollback complete (${duration}ms) ===`)
 
     await recordDeployment(config.name, {
       id: deploymentId,
+      commit: target.commit,
+      sha: target.sha,
       timestamp: new Date().toISOString(),
-      status: 'failed',
+      status: 'success',
+      duration_ms: duration,
+      rollback_of: live?.id,
+      rollback_to: target.id,
+      artifact_sha256: target.artifact_sha256,
+      release: targetRelease,
+    })
+    await events.end({ type: 'deploy.succeeded', commit: target.commit, duration_ms: duration })
+
+    return {
+      success: true,
+      deploymentId,
+      duration,
+      commit: target.commit,
+    }
+  } catch (error) {
+    const duration = Date.now() - startTime
+    const errorMessage = error instanceof Error ? error.message : String(error)
+
+    await logToFile(logFile, `=== Rollback FAILED: ${errorMessage} ===`)
+
+    await recordDeployment(config.name, {
+      id: deploymentId,
+      timestamp: new Date().toISOString(),
+      status: failureStatus(error),
       duration_ms: duration,
       error: errorMessage,
+      rollback_of: live?.id,
+      rollback_to: target.id,
     })
+    await events.end({ type: 'deploy.failed', error: errorMessage, status: failureStatus(error), duration_ms: duration })
 
     return {
       success: false,
@@ -186,11 +1221,211 @@ export async function deployApp(config: AppConfig): Promise<DeployResult> {
   }
 }
 
+// What a deploy of an app would do (see planAppDeploy)
+export interface DeployPlan {
+  current: { release: string; sha: string } | null
+  incoming: { sha: string; ref?: string }
+  commits: string[] // One-line summaries, newest first
+  changedFiles: string[] // "<status>\t<path>"
+  buildSkipped: boolean // Commit already live: only a restart
+  runtime: DetectedRuntime // Detected from the incoming commit for `runtime: auto`
+  build: { command: string; cwd: string; timeout: number }
+  process: {
+    mode: 'pm2' | 'script'
+    strategy: 'restart' | 'blue_green'
+    command: string // Start command, or the deploy script
+    name: string
+    port?: number
+    instances: number
+    memory: string
+  }
+  envKeys: string[]
+  hooks: HookName[]
+  nginx: {
+    status: 'none' | 'new' | 'unchanged' | 'changed'
+    appliedByDeploy: boolean // Blue/green deploys rewrite it; otherwise `shyp sync` does
+  }
+}
+
+// Work out what deployApp would do, using the same resolution steps
+// Fetches into the app's repo cache but changes nothing else.
+export async function planAppDeploy(
+  config: AppConfig,
+  options: { ref?: string; force?: boolean } = {}
+): Promise<DeployPlan> {
+  const settings = await loadDeploySettings()
+  const { repo, current } = getReleasePaths(config.path)
+  const liveRelease = await getCurrentRelease(config.path)
+  const liveRecord = await findLiveRecord(config, liveRelease)
+
+  const sha = await resolveIncomingCommit(config, options.ref)
+  const liveSha = liveRelease ? await git.getCurrentCommit(current).catch(() => null) : null
+
+  // History may be missing in shallow clones
+  const commits = liveSha ? await git.getCommitLog(repo, liveSha, sha).catch(() => []) : []
+  const changedFiles = liveSha ? await git.getChangedFiles(repo, liveSha, sha).catch(() => []) : []
+
+  const runtime = await resolveRuntime(config.runtime, config.root
+    ? [commitReader(repo, sha, config.root), commitReader(repo, sha)]
+    : [commitReader(repo, sha)])
+
+  // Process the new release would run as
+  const strategy = config.deploy?.strategy || 'restart'
+  let processName = getAppPM2Name(config)
+  let port = config.port
+  if (strategy === 'blue_green') {
+    const pair = (await loadPortAllocations()).blue_green[config.name]
+    if (pair) {
+      ({ name: processName, port } = getIdleTarget(config, pair))
+    } else {
+      processName = `${processName}-${BLUE_GREEN_COLORS[1]}`
+    }
+  }
+
+  // Compare the nginx config this port would produce with what is installed
+  let nginxStatus: DeployPlan['nginx']['status'] = 'none'
+  if (config.domain) {
+    const installed = join(NGINX_AVAILABLE, getNginxConfigName(config.name))
+    const generated = generateNginxConfig({ ...config, port })
+    nginxStatus = !existsSync(installed)
+      ? 'new'
+      : (await readFile(installed, 'utf-8')) === generated ? 'unchanged' : 'changed'
+  }
+
+  const isScript = config.deploy?.mode === 'script' && !!config.deploy.script
+  const resources = getProcessResources(config)
+
+  return {
+    current: liveRelease && liveSha ? { release: liveRelease, sha: liveSha } : null,
+    incoming: { sha, ref: options.ref },
+    commits,
+    changedFiles,
+    buildSkipped: !options.force && !!liveRelease && !!liveRecord && isLive(liveRecord, sha),
+    runtime,
+    build: {
+      command: getBuildCommand(config, runtime),
+      cwd: config.root || '.',
+      timeout: getBuildTimeout(config, settings),
+    },
+    process: {
+      mode: isScript ? 'script' : 'pm2',
+      strategy,
+      command: isScript ? config.deploy!.script! : getStartCommand(config, runtime),
+      name: processName,
+      port,
+      instances: resources.instances,
+      memory: resources.memory,
+    },
+    envKeys: Object.keys(config.env).sort(),
+    hooks: (Object.keys(config.hooks || {}) as HookName[]).filter(hook => config.hooks?.[hook]),
+    nginx: {
+      status: nginxStatus,
+      appliedByDeploy: strategy === 'blue_green' && !isScript,
+    },
+  }
+}
+
+// Directory a module is built and run from (absolute path wins over subpath)
+function getModulePath(engine: EngineConfig, moduleConfig: ModuleConfig): string {
+  return moduleConfig.path
+    ?? (moduleConfig.subpath
+      ? join(engine.server.path, moduleConfig.subpath)
+      : engine.server.path)
+}
+
+// Run the engine's migration command, or a module's when one is given
+// (no-op if none is configured). What ran is written to the deployment log.
+async function runMigrations(
+  engine: EngineConfig,
+  module: { name: string; config: ModuleConfig } | null,
+  ctx: DeployContext,
+  options: { timeout?: number; node?: NodeInstall | null } = {}
+): Promise<void> {
+  const database = engine.server.database
+  const cmd = module ? database?.module_migrations : database?.migrations
+  if (!cmd) return
+
+  const target = module ? `${engine.name}/${module.name}` : engine.name
+  step(ctx, `Running migrations for ${target}...`)
+  await logToFile(ctx.logFile, `Running migrations for ${target}: ${cmd}`)
+
+  await runCommand(cmd, {
+    cwd: module ? getModulePath(engine, module.config) : engine.server.path,
+    env: {
+      ...module?.config.env,
+      ...nodeEnv(options.node),
+      SHYP_DATABASE_TYPE: database?.type || '',
+      ...(module ? { SHYP_MODULE: module.name } : {}),
+    },
+    timeout: options.timeout,
+  }, ctx)
+
+  await logToFile(ctx.logFile, `Migrations complete for ${target}`)
+}
+
+// Run an engine's (or one module's) migrations outside of a deploy
+// Holds the engine's deploy lock; the run is logged like a deploy but not recorded as one.
+export async function migrateEngine(
+  engine: EngineConfig,
+  options: BaseDeployOptions & { module?: string } = {}
+): Promise<DeployResult> {
+  return withDeployLock(engine.name, options, async signal => {
+    const moduleConfig = options.module ? engine.modules[options.module] : undefined
+    if (options.module && !moduleConfig) {
+      return { success: false, deploymentId: '', duration: 0, error: `Module not found: ${options.module}` }
+    }
+
+    const name = options.module ? `${engine.name}/${options.module}` : engine.name
+    const deploymentId = generateDeploymentId()
+    const startTime = Date.now()
+
+    const logDir = await ensureLogDir(name.replace('/', '-'))
+    const logFile = join(logDir, `${deploymentId}.log`)
+    const events = startEvents(logDir, deploymentId, name, 'migration', options)
+    const settings = await loadDeploySettings()
+    const ctx: DeployContext = { logFile, settings, onOutput: options.onOutput, signal, events }
+
+    try {
+      await logToFile(logFile, `=== Running migrations for ${name} ===`)
+      await runMigrations(engine, moduleConfig ? { name: options.module!, config: moduleConfig } : null, ctx, {
+        timeout: moduleConfig?.build?.timeout ?? engine.server.build?.timeout ?? settings.defaults.build_timeout,
+        node: await resolveEngineNode(engine, ctx, moduleConfig),
+      })
+
+      const duration = Date.now() - startTime
+      await logToFile(logFile, `=== Migrations complete (${duration}ms) ===`)
+      await events.end({ type: 'deploy.succeeded', duration_ms: duration })
+
+      return { success: true, deploymentId, duration }
+    } catch (error) {
+      const duration = Date.now() - startTime
+      const errorMessage = error instanceof Error ? error.message : String(error)
+
+      await logToFile(logFile, `=== Migrations FAILED: ${errorMessage} ===`)
+      await events.end({ type: 'deploy.failed', error: errorMessage, status: failureStatus(error), duration_ms: duration })
+
+      return { success: false, deploymentId, duration, error: errorMessage }
+    }
+  })
+}
+
 // Deploy an engine module
 export async function deployModule(
   engine: EngineConfig,
   moduleName: string,
-  moduleConfig: ModuleConfig
+  moduleConfig: ModuleConfig,
+  options: BaseDeployOptions = {}
+): Promise<DeployResult> {
+  return withDeployLock(engine.name, options, signal =>
+    runModuleDeploy(engine, moduleName, moduleConfig, options, signal))
+}
+
+async function runModuleDeploy(
+  engine: EngineConfig,
+  moduleName: string,
+  moduleConfig: ModuleConfig,
+  options: BaseDeployOptions,
+  signal?: AbortSignal
 ): Promise<DeployResult> {
   const fullName = `${engine.name}/${moduleName}`
   const deploymentId = generateDeploymentId()
@@ -199,18 +1434,19 @@ export async function deployModule(
   const logDir = await ensureLogDir(fullName.replace('/', '-'))
   const logFile = join(logDir, `${deploymentId}.log`)
 
+  const settings = await loadDeploySettings()
+  const events = startEvents(logDir, deploymentId, fullName, 'module', options)
+  const ctx: DeployContext = { logFile, settings, onOutput: options.onOutput, signal, events }
+  const buildTimeout = moduleConfig.build?.timeout ?? settings.defaults.build_timeout
+
   try {
     await logToFile(logFile, `=== Starting module deployment for ${fullName} ===`)
 
-    // Determine module path (absolute path takes precedence over subpath)
-    const modulePath = moduleConfig.path
-      ?? (moduleConfig.subpath
-        ? join(engine.server.path, moduleConfig.subpath)
-        : engine.server.path)
+    const modulePath = getModulePath(engine, moduleConfig)
 
     // If module has its own repo, clone/pull it
     if (moduleConfig.repo) {
-      log.step('Updating module repository...')
+      step(ctx, 'Updating module repository...')
       await git.ensureCloned(moduleConfig.repo, modulePath, {
         branch: moduleConfig.branch,
       })
@@ -218,29 +1454,40 @@ export async function deployModule(
     }
 
     const commit = await git.getShortCommit(modulePath)
+    const node = await resolveEngineNode(engine, ctx, moduleConfig)
+    const env = { ...await moduleEnv(engine, moduleName, moduleConfig), ...nodeEnv(node) }
 
-    // Run deploy script or build
-    if (moduleConfig.deploy?.mode === 'script' && moduleConfig.deploy.script) {
-      log.step(`Running deploy script: ${moduleConfig.deploy.script}`)
-      const scriptPath = join(modulePath, moduleConfig.deploy.script)
-      await runCommand(`chmod +x ${scriptPath} && ${scriptPath}`, {
-        cwd: modulePath,
-        env: moduleConfig.env,
-        logFile,
-      })
-    } else if (moduleConfig.build?.command) {
-      log.step('Building module...')
+    const deployScript = moduleConfig.deploy?.mode === 'script' ? moduleConfig.deploy.script : undefined
+
+    // Script deploys build in their script; others build here
+    if (!deployScript && moduleConfig.build?.command) {
+      step(ctx, 'Building module...')
       await runCommand(moduleConfig.build.command, {
         cwd: modulePath,
-        env: moduleConfig.env,
-        logFile,
-      })
+        env,
+        timeout: buildTimeout,
+      }, ctx)
+    }
+
+    // Before the deploy script or restart, so a failed migration leaves the
+    // running module as it was
+    await runMigrations(engine, { name: moduleName, config: moduleConfig }, ctx, { timeout: buildTimeout, node })
+
+    if (deployScript) {
+      step(ctx, `Running deploy script: ${deployScript}`)
+      const scriptPath = join(modulePath, deployScript)
+      await runCommand(`chmod +x ${scriptPath} && ${scriptPath}`, {
+        cwd: modulePath,
+        env,
+        timeout: buildTimeout,
+      }, ctx)
     }
 
     // If PM2-based, restart the process
     if (moduleConfig.deploy?.mode === 'pm2' && moduleConfig.deploy.pm2_name) {
-      log.step(`Restarting ${moduleConfig.deploy.pm2_name}...`)
-      await pm2.restartProcess(moduleConfig.deploy.pm2_name)
+      step(ctx, `Restarting ${moduleConfig.deploy.pm2_name}...`)
+      await pm2.restartProcess(moduleConfig.deploy.pm2_name, env)
+      await verifyModuleHealth(engine, moduleName, moduleConfig, ctx)
     }
 
     const duration = Date.now() - startTime
@@ -253,6 +1500,7 @@ export async function deployModule(
       status: 'success',
       duration_ms: duration,
     })
+    await events.end({ type: 'deploy.succeeded', commit, duration_ms: duration })
 
     return {
       success: true,
@@ -269,10 +1517,11 @@ export async function deployModule(
     await recordDeployment(fullName, {
       id: deploymentId,
       timestamp: new Date().toISOString(),
-      status: 'failed',
+      status: failureStatus(error),
       duration_ms: duration,
       error: errorMessage,
     })
+    await events.end({ type: 'deploy.failed', error: errorMessage, status: failureStatus(error), duration_ms: duration })
 
     return {
       success: false,
@@ -283,58 +1532,187 @@ export async function deployModule(
   }
 }
 
+// Environment for a module: its configured env plus PORT (configured or assigned by sync)
+async function moduleEnv(
+  engine: EngineConfig,
+  moduleName: string,
+  moduleConfig: ModuleConfig
+): Promise<Record<string, string>> {
+  const port = getModulePort(await loadPortAllocations(), engine.name, moduleName, moduleConfig)
+  return port ? { ...moduleConfig.env, PORT: String(port) } : { ...moduleConfig.env }
+}
+
+// Check a module after its process restarted: its health endpoint when configured,
+// otherwise that PM2 reports it online
+async function verifyModuleHealth(
+  engine: EngineConfig,
+  moduleName: string,
+  moduleConfig: ModuleConfig,
+  ctx: DeployContext
+): Promise<void> {
+  const fullName = `${engine.name}/${moduleName}`
+  if (moduleConfig.health) {
+    const port = moduleConfig.health.port ??
+      getModulePort(await loadPortAllocations(), engine.name, moduleName, moduleConfig)
+    if (!port) {
+      throw new Error(`${fullName} has no port to health-check yet (run "shyp sync" to assign one)`)
+    }
+    await verifyHealth(fullName, moduleConfig.health, port, ctx)
+    return
+  }
+
+  const pm2Name = moduleConfig.deploy!.pm2_name!
+  const proc = await pm2.getProcess(pm2Name)
+  if (proc?.status !== 'online') {
+    throw new Error(`${pm2Name} is ${proc?.status ?? 'not running'} after restart`)
+  }
+}
+
+// Restart the modules that run their own PM2 process one at a time, so at most
+// one is down at once; stops at the first one that does not come back healthy
+async function restartModulesInTurn(engine: EngineConfig, ctx: DeployContext): Promise<void> {
+  for (const [moduleName, moduleConfig] of Object.entries(engine.modules)) {
+    const pm2Name = moduleConfig.deploy?.mode === 'pm2' && moduleConfig.deploy.pm2_name
+    if (!pm2Name) continue
+
+    throwIfCancelled(ctx)
+    step(ctx, `Restarting ${pm2Name}...`)
+    await pm2.restartProcess(pm2Name, await moduleEnv(engine, moduleName, moduleConfig))
+    await verifyModuleHealth(engine, moduleName, moduleConfig, ctx)
+  }
+}
+
+// Reset an engine's checkout to the commit it was on and rebuild it, after a
+// deploy failed before the new code was loaded
+async function restoreEngineCheckout(
+  engine: EngineConfig,
+  commit: string,
+  ctx: DeployContext,
+  timeout: number
+): Promise<void> {
+  const serverConfig = engine.server
+  const gitOptions = { sshKey: serverConfig.sshKey, git: serverConfig.git }
+
+  step(ctx, `Restoring ${engine.name} to ${commit.slice(0, 7)}...`)
+  await git.reset(serverConfig.path, commit, gitOptions)
+  await git.syncWorkingTree(serverConfig.path, gitOptions)
+
+  const runtime = await resolveRuntime(serverConfig.runtime, [directoryReader(serverConfig.path)])
+  const node = await resolveEngineNode(engine, ctx)
+  await runCommand(serverConfig.build?.command || runtime.commands.install, {
+    cwd: serverConfig.path,
+    env: nodeEnv(node),
+    timeout,
+  }, ctx)
+}
+
 // Deploy the engine server itself
-export async function deployEngine(engine: EngineConfig): Promise<DeployResult> {
+export async function deployEngine(
+  engine: EngineConfig,
+  options: BaseDeployOptions = {}
+): Promise<DeployResult> {
+  return withDeployLock(engine.name, options, signal => runEngineDeploy(engine, options, signal))
+}
+
+async function runEngineDeploy(
+  engine: EngineConfig,
+  options: BaseDeployOptions,
+  signal?: AbortSignal
+): Promise<DeployResult> {
   const deploymentId = generateDeploymentId()
   const startTime = Date.now()
 
   const logDir = await ensureLogDir(engine.name)
   const logFile = join(logDir, `${deploymentId}.log`)
 
+  const settings = await loadDeploySettings()
+  const events = startEvents(logDir, deploymentId, engine.name, 'engine', options)
+  const ctx: DeployContext = { logFile, settings, onOutput: options.onOutput, signal, events }
+  const buildTimeout = engine.server.build?.timeout ?? settings.defaults.build_timeout
+  let hookOptions: HookOptions | undefined
+  let previousCommit: string | null = null // Set while the checkout is ahead of the running code
+  let reloading = false
+
   try {
     await logToFile(logFile, `=== Starting engine deployment for ${engine.name} ===`)
 
     const serverConfig = engine.server
 
     // Clone/pull engine repo
-    log.step('Updating engine repository...')
+    step(ctx, 'Updating engine repository...')
+    const wasCloned = git.isGitRepo(serverConfig.path)
     await git.ensureCloned(serverConfig.repo, serverConfig.path, {
       branch: serverConfig.branch,
       sshKey: serverConfig.sshKey,
+      git: serverConfig.git,
     })
+    const liveCommit = wasCloned ? await git.getCurrentCommit(serverConfig.path) : null
     await git.pull(serverConfig.path, serverConfig.branch, {
       sshKey: serverConfig.sshKey,
+      git: serverConfig.git,
     })
+    if (liveCommit && liveCommit !== await git.getCurrentCommit(serverConfig.path)) {
+      previousCommit = liveCommit
+    }
     const commit = await git.getShortCommit(serverConfig.path)
+    const runtime = await resolveRuntime(serverConfig.runtime, [directoryReader(serverConfig.path)])
+    await logToFile(logFile, `Runtime: ${describeRuntime(runtime)}`)
+    const node = await resolveEngineNode(engine, ctx)
 
-    // Stop engine process
-    const pm2Name = serverConfig.pm2?.name || engine.name
-    log.step(`Stopping ${pm2Name}...`)
-    await pm2.stopProcess(pm2Name)
+    hookOptions = {
+      cwd: serverConfig.path,
+      env: hookEnv(nodeEnv(node), { name: engine.name, deploymentId, commit, dir: serverConfig.path }),
+      timeout: buildTimeout,
+    }
+    await runHook(serverConfig.hooks, 'pre_build', hookOptions, ctx)
 
     // Get runtime-specific commands
-    const engineRuntime = serverConfig.runtime || 'npm'
-    const engineRuntimeCmds = RUNTIME_COMMANDS[engineRuntime]
+    const engineRuntimeCmds = runtime.commands
 
     // Build
     const buildCmd = serverConfig.build?.command || engineRuntimeCmds.install
-    log.step('Building engine...')
+    step(ctx, 'Building engine...')
     await runCommand(buildCmd, {
       cwd: serverConfig.path,
-      logFile,
-    })
+      env: nodeEnv(node),
+      timeout: buildTimeout,
+    }, ctx)
 
-    // Start engine
-    const startCmd = serverConfig.start?.command || engineRuntimeCmds.start
-    log.step(`Starting ${pm2Name}...`)
-    await pm2.deleteProcess(pm2Name)
-    await pm2.startProcess(pm2Name, startCmd, {
-      cwd: serverConfig.path,
-      instances: serverConfig.pm2?.instances || 1,
-      maxMemory: serverConfig.pm2?.memory || '2G',
-    })
+    await runHook(serverConfig.hooks, 'post_build', hookOptions, ctx)
+
+    // A failed migration aborts with the old process still serving
+    await runMigrations(engine, null, ctx, { timeout: buildTimeout, node })
+    await runHook(serverConfig.hooks, 'pre_start', hookOptions, ctx)
+
+    // The old process kept running through the build; reload swaps it for the
+    // new code gracefully. Only a first deploy starts it from scratch.
+    const pm2Name = serverConfig.pm2?.name || engine.name
+    reloading = true
+    if (await pm2.getProcess(pm2Name)) {
+      step(ctx, `Reloading ${pm2Name}...`)
+      await pm2.reloadProcess(pm2Name, nodeEnv(node))
+    } else {
+      const startCmd = serverConfig.start?.command || engineRuntimeCmds.start
+      step(ctx, `Starting ${pm2Name}...`)
+      await pm2.startProcess(pm2Name, startCmd, {
+        cwd: serverConfig.path,
+        env: nodeEnv(node),
+        instances: serverConfig.pm2?.instances || 1,
+        maxMemory: serverConfig.pm2?.memory || '2G',
+        ...getInterpreter(runtime, startCmd, node),
+      })
+    }
     await pm2.saveProcessList()
 
+    const healthPort = serverConfig.health?.port ?? serverConfig.ports?.http
+    if (serverConfig.health && healthPort) {
+      await verifyHealth(engine.name, serverConfig.health, healthPort, ctx)
+    }
+
+    await restartModulesInTurn(engine, ctx)
+
+    await runNonFatalHook(serverConfig.hooks, 'post_start', hookOptions, ctx)
+
     const duration = Date.now() - startTime
     await logToFile(logFile, `=== Engine deployment complete (${duration}ms) ===`)
 
@@ -344,7 +1722,9 @@ export async function deployEngine(engine: EngineConfig): Promise<DeployResult>
       timestamp: new Date().toISOString(),
       status: 'success',
       duration_ms: duration,
+      runtime: runtime.runtime,
     })
+    await events.end({ type: 'deploy.succeeded', commit, duration_ms: duration })
 
     return {
       success: true,
@@ -357,14 +1737,36 @@ export async function deployEngine(engine: EngineConfig): Promise<DeployResult>
     const errorMessage = error instanceof Error ? error.message : String(error)
 
     await logToFile(logFile, `=== Engine deployment FAILED: ${errorMessage} ===`)
+    events.failStep()
+
+    const failureHookOptions = hookOptions ?? {
+      cwd: engine.server.path,
+      env: hookEnv({}, { name: engine.name, deploymentId, dir: engine.server.path }),
+    }
+    await runNonFatalHook(engine.server.hooks, 'on_failure', {
+      ...failureHookOptions,
+      env: { ...failureHookOptions.env, SHYP_DEPLOY_ERROR: errorMessage },
+    }, { ...ctx, signal: undefined })
+
+    // The engine still runs the old code from this directory - put it back
+    if (previousCommit && !reloading) {
+      try {
+        await restoreEngineCheckout(engine, previousCommit, { ...ctx, signal: undefined }, buildTimeout)
+        await logToFile(logFile, `=== Restored ${engine.name} to ${previousCommit} ===`)
+      } catch (restoreError) {
+        const message = restoreError instanceof Error ? restoreError.message : String(restoreError)
+        await logToFile(logFile, `=== Restore FAILED: ${message} ===`)
+      }
+    }
 
     await recordDeployment(engine.name, {
       id: deploymentId,
       timestamp: new Date().toISOString(),
-      status: 'failed',
+      status: failureStatus(error),
       duration_ms: duration,
       error: errorMessage,
     })
+    await events.end({ type: 'deploy.failed', error: errorMessage, status: failureStatus(error), duration_ms: duration })
 
     return {
       success: false,
@@ -0,0 +1,105 @@
+import { EventEmitter } from 'events'
+import { appendFile } from 'fs/promises'
+import type { OutputStream } from './deploy.js'
+
+// What a deploy is for
+export type DeployKind = 'app' | 'rollback' | 'module' | 'engine' | 'migration'
+
+// Event-specific fields
+export type DeployEventPayload =
+  | { type: 'deploy.started'; kind: DeployKind; ref?: string }
+  | { type: 'step.started'; step: string }
+  | { type: 'step.finished'; step: string; success: boolean; duration_ms: number }
+  | { type: 'command.output'; stream: OutputStream; line: string }
+  | { type: 'deploy.succeeded'; commit?: string; duration_ms: number; skipped?: boolean }
+  | {
+    type: 'deploy.failed'
+    error: string
+    status: 'failed' | 'timed_out' | 'cancelled'
+    duration_ms: number
+    rolledBack?: boolean
+  }
+
+// A deploy progress event, as emitted and written to <id>.events.jsonl
+export type DeployEvent = DeployEventPayload & {
+  deploymentId: string
+  name: string // App, engine, or engine/module
+  timestamp: string
+}
+
+export type DeployEventHandler = (event: DeployEvent) => void
+
+type FinalEvent = Extract<DeployEventPayload, { type: 'deploy.succeeded' | 'deploy.failed' }>
+
+// Every deploy in this process publishes its events here as 'event'
+export const deployEvents = new EventEmitter()
+
+// Subscribe to the events of all deploys (returns an unsubscribe function)
+export function onDeployEvent(listener: DeployEventHandler): () => void {
+  deployEvents.on('event', listener)
+  return () => {
+    deployEvents.off('event', listener)
+  }
+}
+
+// Publishes the events of one deploy and appends them to its JSON lines file
+export interface DeployEventRecorder {
+  emit: (payload: DeployEventPayload) => void
+  step: (step: string) => void // Finishes the running step and starts the next
+  failStep: () => void // Finishes the running step as failed
+  end: (payload: FinalEvent) => Promise<void> // Finishes the running step and flushes the file
+}
+
+export function createEventRecorder(target: {
+  deploymentId: string
+  name: string
+  file: string
+  onEvent?: DeployEventHandler
+}): DeployEventRecorder {
+  let current: { step: string; startedAt: number } | null = null
+  let writes = Promise.resolve()
+
+  const emit = (payload: DeployEventPayload) => {
+    const event: DeployEvent = {
+      ...payload,
+      deploymentId: target.deploymentId,
+      name: target.name,
+      timestamp: new Date().toISOString(),
+    }
+
+    // Writes are chained so the file keeps event order; a failed write only loses that line
+    writes = writes
+      .then(() => appendFile(target.file, JSON.stringify(event) + '\n'))
+      .catch(() => { })
+
+    // A broken consumer must not break the deploy
+    for (const listener of [target.onEvent, (e: DeployEvent) => deployEvents.emit('event', e)]) {
+      try {
+        listener?.(event)
+      } catch {
+        // Ignore
+      }
+    }
+  }
+
+  const finishStep = (success: boolean) => {
+    if (!current) return
+    emit({ type: 'step.finished', step: current.step, success, duration_ms: Date.now() - current.startedAt })
+    current = null
+  }
+
+  return {
+    emit,
+    step: step => {
+      finishStep(true)
+      current = { step, startedAt: Date.now() }
+      emit({ type: 'step.started', step })
+    },
+    failStep: () => finishStep(false),
+    end: async payload => {
+      finishStep(payload.type === 'deploy.succeeded')
+      emit(payload)
+      await writes
+    },
+  }
+}
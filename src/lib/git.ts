@@ -1,6 +1,7 @@
 import { execa } from 'execa'
 import { existsSync } from 'fs'
 import { join } from 'path'
+import type { GitOptions } from '../schemas/index.js'
 import { DEFAULT_SSH_KEY } from '../utils/paths.js'
 
 // Git operations with SSH key support
@@ -24,6 +25,8 @@ export async function clone(
   options: {
     branch?: string
     sshKey?: string
+    noCheckout?: boolean
+    git?: GitOptions
   } = {}
 ): Promise<void> {
   const args = ['clone', repo, path]
@@ -32,9 +35,76 @@ export async function clone(
     args.push('--branch', options.branch)
   }
 
+  if (options.noCheckout) {
+    args.push('--no-checkout')
+  }
+
+  // Shallow, but keep every branch so other refs can still be deployed
+  if (options.git?.depth) {
+    args.push('--depth', String(options.git.depth), '--no-single-branch')
+  }
+
+  // Sparse checkouts fill in the working tree afterwards
+  if (options.git?.sparse_paths?.length && !options.noCheckout) {
+    args.push('--no-checkout')
+  }
+
   await execa('git', args, {
-    env: gitEnv(options.sshKey),
+    env: { ...gitEnv(options.sshKey), ...lfsEnv(options.git) },
   })
+
+  if (!options.noCheckout) {
+    await syncWorkingTree(path, {
+      ...options,
+      checkout: options.git?.sparse_paths?.length ? 'HEAD' : undefined,
+    })
+  }
+}
+
+// Skip LFS downloads during checkout; syncWorkingTree fetches them in one go
+function lfsEnv(git?: GitOptions): Record<string, string> {
+  return git?.lfs ? { GIT_LFS_SKIP_SMUDGE: '1' } : {}
+}
+
+// Bring a working tree in line with the git options: sparse paths, then
+// (optionally) check out a commit, then submodules and LFS files
+export async function syncWorkingTree(
+  path: string,
+  options: {
+    sshKey?: string
+    git?: GitOptions
+    checkout?: string // For trees created with --no-checkout
+  } = {}
+): Promise<void> {
+  const git = options.git || {}
+  const env = gitEnv(options.sshKey)
+
+  if (git.sparse_paths?.length) {
+    await execa('git', ['sparse-checkout', 'set', '--', ...git.sparse_paths], { cwd: path, env: lfsEnv(git) })
+  } else {
+    // Sparse paths were removed from the config since the last checkout
+    const { stdout } = await execa('git', ['config', '--get', 'core.sparseCheckout'], { cwd: path, reject: false })
+    if (stdout.trim() === 'true') {
+      await execa('git', ['sparse-checkout', 'disable'], { cwd: path, env: lfsEnv(git) })
+    }
+  }
+
+  if (options.checkout) {
+    await reset(path, options.checkout, options)
+  }
+
+  if (git.submodules) {
+    await execa('git', ['submodule', 'sync', '--recursive'], { cwd: path, env })
+    const args = ['submodule', 'update', '--init', '--recursive', '--force']
+    if (git.depth) {
+      args.push('--depth', String(git.depth))
+    }
+    await execa('git', args, { cwd: path, env: { ...env, ...lfsEnv(git) } })
+  }
+
+  if (git.lfs) {
+    await execa('git', ['lfs', 'pull'], { cwd: path, env })
+  }
 }
 
 // Fetch from remote
@@ -42,9 +112,19 @@ export async function fetch(
   path: string,
   options: {
     sshKey?: string
+    tags?: boolean
+    depth?: number
   } = {}
 ): Promise<void> {
-  await execa('git', ['fetch', 'origin'], {
+  const args = ['fetch', 'origin']
+  if (options.tags) {
+    args.push('--tags', '--force')
+  }
+  if (options.depth) {
+    args.push('--depth', String(options.depth))
+  }
+
+  await execa('git', args, {
     cwd: path,
     env: gitEnv(options.sshKey),
   })
@@ -56,24 +136,27 @@ export async function reset(
   target: string,
   options: {
     sshKey?: string
+    git?: GitOptions
   } = {}
 ): Promise<void> {
   await execa('git', ['reset', '--hard', target], {
     cwd: path,
-    env: gitEnv(options.sshKey),
+    env: { ...gitEnv(options.sshKey), ...lfsEnv(options.git) },
   })
 }
 
-// Pull latest changes (fetch + reset)
+// Pull latest changes (fetch + reset), then update sparse paths, submodules and LFS
 export async function pull(
   path: string,
   branch: string = 'main',
   options: {
     sshKey?: string
+    git?: GitOptions
   } = {}
 ): Promise<void> {
-  await fetch(path, options)
+  await fetch(path, { sshKey: options.sshKey, depth: options.git?.depth })
   await reset(path, `origin/${branch}`, options)
+  await syncWorkingTree(path, options)
 }
 
 // Get current commit hash
@@ -82,12 +165,160 @@ export async function getCurrentCommit(path: string): Promise<string> {
   return stdout.trim()
 }
 
+// Resolve a ref (branch, tag, commit) to a full commit hash
+export async function resolveCommit(path: string, ref: string): Promise<string> {
+  const { stdout } = await execa('git', ['rev-parse', '--verify', '--end-of-options', `${ref}^{commit}`], { cwd: path })
+  return stdout.trim()
+}
+
+// Check that a requested ref is a commit hash or a well-formed ref name
+// (never an option: anything starting with "-" is rejected)
+export async function isValidRef(ref: string): Promise<boolean> {
+  if (!ref || ref.startsWith('-')) return false
+  if (/^[0-9a-f]{4,40}$/i.test(ref)) return true
+
+  const { exitCode } = await execa('git', ['check-ref-format', '--allow-onelevel', ref], { reject: false })
+  return exitCode === 0
+}
+
+// Resolve a branch, tag or commit on origin to a full commit hash
+// Branch names win over tags and commits; unknown commits are fetched directly.
+export async function resolveRemoteRef(
+  path: string,
+  ref: string,
+  options: {
+    sshKey?: string
+  } = {}
+): Promise<string> {
+  if (!await isValidRef(ref)) {
+    throw new Error(`Invalid ref: ${ref}`)
+  }
+
+  for (const candidate of [`origin/${ref}`, ref]) {
+    try {
+      return await resolveCommit(path, candidate)
+    } catch {
+      // Try the next form
+    }
+  }
+
+  // A commit not reachable from any fetched branch or tag
+  await execa('git', ['fetch', '--end-of-options', 'origin', ref], {
+    cwd: path,
+    env: gitEnv(options.sshKey),
+  })
+  return resolveCommit(path, 'FETCH_HEAD')
+}
+
+// Check out a commit into a separate working tree (detached HEAD)
+export async function addWorktree(
+  repoPath: string,
+  path: string,
+  commit: string,
+  options: {
+    sshKey?: string
+    git?: GitOptions
+  } = {}
+): Promise<void> {
+  // Sparse worktrees are created empty and filled once the paths are set
+  const sparse = !!options.git?.sparse_paths?.length
+  const args = ['worktree', 'add', '--detach', '--force']
+  if (sparse) {
+    args.push('--no-checkout')
+  }
+
+  await execa('git', [...args, path, commit], {
+    cwd: repoPath,
+    env: { ...gitEnv(options.sshKey), ...lfsEnv(options.git) },
+  })
+
+  await syncWorkingTree(path, { ...options, checkout: sparse ? 'HEAD' : undefined })
+}
+
+// Remove a working tree created by addWorktree
+export async function removeWorktree(repoPath: string, path: string): Promise<void> {
+  await execa('git', ['worktree', 'remove', '--force', path], { cwd: repoPath, reject: false })
+  await execa('git', ['worktree', 'prune'], { cwd: repoPath, reject: false })
+}
+
 // Get current commit hash (short)
 export async function getShortCommit(path: string): Promise<string> {
   const { stdout } = await execa('git', ['rev-parse', '--short', 'HEAD'], { cwd: path })
   return stdout.trim()
 }
 
+// One-line summaries of the commits in from..to, newest first
+export async function getCommitLog(path: string, from: string, to: string): Promise<string[]> {
+  const { stdout } = await execa('git', ['log', '--oneline', '--no-decorate', `${from}..${to}`], { cwd: path })
+  return stdout.split('\n').filter(Boolean)
+}
+
+// Files changed between two commits as "<status>\t<path>" (e.g. "M\tsrc/index.ts")
+export async function getChangedFiles(path: string, from: string, to: string): Promise<string[]> {
+  const { stdout } = await execa('git', ['diff', '--name-status', from, to], { cwd: path })
+  return stdout.split('\n').filter(Boolean)
+}
+
+// Reading files may fetch missing objects (e.g. from a blobless clone), so
+// never wait on a credentials prompt or a stalled connection
+const INSPECTION_TIMEOUT_MS = 60_000
+
+function inspectionEnv(sshKey?: string): Record<string, string> {
+  return { ...gitEnv(sshKey), GIT_TERMINAL_PROMPT: '0' }
+}
+
+// Check whether a file exists at a commit (reads trees only, so blobless clones work)
+export async function fileExistsAt(
+  path: string,
+  commit: string,
+  file: string,
+  options: { sshKey?: string } = {}
+): Promise<boolean> {
+  const { stdout, exitCode } = await execa('git', ['ls-tree', '--name-only', commit, '--', file], {
+    cwd: path,
+    env: inspectionEnv(options.sshKey),
+    timeout: INSPECTION_TIMEOUT_MS,
+    reject: false,
+  })
+  return exitCode === 0 && stdout.trim() !== ''
+}
+
+// Read a file at a commit (undefined if it does not exist)
+export async function readFileAt(
+  path: string,
+  commit: string,
+  file: string,
+  options: { sshKey?: string } = {}
+): Promise<string | undefined> {
+  const { stdout, exitCode } = await execa('git', ['show', `${commit}:${file}`], {
+    cwd: path,
+    env: inspectionEnv(options.sshKey),
+    timeout: INSPECTION_TIMEOUT_MS,
+    reject: false,
+  })
+  return exitCode === 0 ? stdout : undefined
+}
+
+// Shallow, blobless clone of one branch without a checkout, for looking at a repo's files
+export async function cloneForInspection(
+  repo: string,
+  path: string,
+  options: {
+    branch?: string
+    sshKey?: string
+  } = {}
+): Promise<void> {
+  const args = ['clone', '--depth', '1', '--filter=blob:none', '--no-checkout']
+  if (options.branch) {
+    args.push('--branch', options.branch)
+  }
+
+  await execa('git', [...args, repo, path], {
+    env: inspectionEnv(options.sshKey),
+    timeout: INSPECTION_TIMEOUT_MS,
+  })
+}
+
 // Get current branch
 export async function getCurrentBranch(path: string): Promise<string> {
   const { stdout } = await execa('git', ['branch', '--show-current'], { cwd: path })
@@ -117,6 +348,8 @@ export async function ensureCloned(
   options: {
     branch?: string
     sshKey?: string
+    noCheckout?: boolean
+    git?: GitOptions
   } = {}
 ): Promise<void> {
   if (!isGitRepo(path)) {
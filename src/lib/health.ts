@@ -0,0 +1,73 @@
+import { setTimeout as sleep } from 'timers/promises'
+import type { HealthStatus } from '../schemas/index.js'
+import { updateHealth } from './state.js'
+
+export interface HealthCheckResult {
+  healthy: boolean
+  statusCode?: number
+  responseTime: number
+  error?: string
+}
+
+// Probe an HTTP endpoint once (2xx/3xx counts as healthy)
+export async function checkHealth(url: string, timeoutMs: number): Promise<HealthCheckResult> {
+  const start = Date.now()
+
+  try {
+    const response = await fetch(url, {
+      redirect: 'manual',
+      signal: AbortSignal.timeout(timeoutMs),
+    })
+    const responseTime = Date.now() - start
+    const healthy = response.status >= 200 && response.status < 400
+
+    return {
+      healthy,
+      statusCode: response.status,
+      responseTime,
+      error: healthy ? undefined : `HTTP ${response.status}`,
+    }
+  } catch (error) {
+    // fetch wraps network errors ("fetch failed"); the cause has the useful detail
+    const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error
+    return {
+      healthy: false,
+      responseTime: Date.now() - start,
+      error: cause instanceof Error ? cause.message : String(cause),
+    }
+  }
+}
+
+// Probe until healthy or out of attempts, waiting between failures
+export async function waitForHealthy(
+  url: string,
+  options: {
+    attempts: number
+    intervalMs: number
+    timeoutMs: number
+  }
+): Promise<HealthCheckResult> {
+  let result = await checkHealth(url, options.timeoutMs)
+
+  for (let attempt = 1; attempt < options.attempts && !result.healthy; attempt++) {
+    await sleep(options.intervalMs)
+    result = await checkHealth(url, options.timeoutMs)
+  }
+
+  return result
+}
+
+// Store a check result in health state
+export async function recordHealth(name: string, result: HealthCheckResult): Promise<void> {
+  await updateHealth(state => {
+    const previous = state[name] as HealthStatus | undefined
+
+    state[name] = {
+      status: result.healthy ? 'healthy' : 'unhealthy',
+      last_check: new Date().toISOString(),
+      consecutive_failures: result.healthy ? 0 : (previous?.consecutive_failures || 0) + 1,
+      last_response_time_ms: result.responseTime,
+      error: result.error,
+    }
+  })
+}
@@ -3,5 +3,15 @@ export * from './state.js'
 export * from './pm2.js'
 export * from './git.js'
 export * from './deploy.js'
+export * from './releases.js'
+export * from './health.js'
+export * from './lock.js'
+export * from './events.js'
+export * from './artifacts.js'
+export * from './dependencies.js'
+export * from './node.js'
+export * from './runtime.js'
+export * from './tags.js'
+export * from './watch.js'
 export * from './nginx.js'
 export * from './ssl.js'
@@ -0,0 +1,198 @@
+import { link, mkdir, readFile, rename, rm, stat, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { setTimeout as sleep } from 'timers/promises'
+import { LOCKS_DIR } from '../utils/paths.js'
+
+// Raised when another live process holds the lock
+export class DeployLockedError extends Error {
+  constructor(name: string, public readonly pid: number) {
+    super(`Deploy already in progress for ${name} by PID ${pid}`)
+  }
+}
+
+export interface DeployLock {
+  release: () => Promise<void>
+  signal: AbortSignal // Aborted when `shyp deploy cancel` targets this deploy
+}
+
+// How often a lock holder checks for a cancel request
+const CANCEL_POLL_MS = 500
+
+// Age after which a takeover file is treated as left behind by a crashed process
+const STALE_TAKEOVER_MS = 30_000
+
+// Lock file for an app or engine
+export function getLockFile(name: string): string {
+  return join(LOCKS_DIR, `${name.replace(/\//g, '-')}.lock`)
+}
+
+// Cancel request file for an app or engine (holds the PID being cancelled)
+function getCancelFile(name: string): string {
+  return join(LOCKS_DIR, `${name.replace(/\//g, '-')}.cancel`)
+}
+
+// Check whether a process is still running
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+// Read the PID holding a lock (null if the lock is missing or unreadable)
+export async function getLockHolder(name: string): Promise<number | null> {
+  try {
+    const pid = parseInt(await readFile(getLockFile(name), 'utf-8'), 10)
+    return Number.isNaN(pid) ? null : pid
+  } catch {
+    return null
+  }
+}
+
+// Replace a lock held by a dead process with the temp file holding our PID
+// Only the process that creates the .takeover file gets to do this, and the lock
+// file exists throughout, so no other process can link a new lock in between.
+async function takeOverLock(file: string, temp: string, deadPid: number): Promise<boolean> {
+  const guard = `${file}.takeover`
+  try {
+    await writeFile(guard, String(process.pid), { flag: 'wx' })
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+
+    // Left behind by a process that died mid-takeover
+    const age = await stat(guard).then(stats => Date.now() - stats.mtimeMs, () => 0)
+    if (age > STALE_TAKEOVER_MS) {
+      await rm(guard, { force: true })
+    }
+    return false
+  }
+
+  try {
+    // Someone else may have taken it over before we got the guard
+    const current = await readFile(file, 'utf-8').catch(() => null)
+    if (current === null || parseInt(current, 10) !== deadPid) return false
+
+    await rename(temp, file)
+    return true
+  } finally {
+    await rm(guard, { force: true })
+  }
+}
+
+// Try once to take the lock; returns the live holder's PID if it is taken
+// The PID goes into a temp file that is linked into place, so the lock file
+// never exists without it.
+async function tryLock(name: string): Promise<number | null> {
+  const file = getLockFile(name)
+  await mkdir(LOCKS_DIR, { recursive: true })
+
+  const temp = `${file}.${process.pid}.tmp`
+  await writeFile(temp, String(process.pid))
+  try {
+    try {
+      await link(temp, file)
+      return null
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+    }
+
+    let content: string
+    try {
+      content = await readFile(file, 'utf-8')
+    } catch (error) {
+      // Released in the meantime
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return tryLock(name)
+      throw error
+    }
+
+    const holder = parseInt(content, 10)
+    if (Number.isNaN(holder)) {
+      throw new Error(`Unreadable lock file ${file}; delete it if no deploy is running for ${name}`)
+    }
+    if (isProcessAlive(holder)) {
+      return holder
+    }
+
+    // Held by a dead process - take it over, or retry once whoever is doing that is done
+    if (await takeOverLock(file, temp, holder)) return null
+    await sleep(50)
+    return tryLock(name)
+  } finally {
+    await rm(temp, { force: true })
+  }
+}
+
+// Take the per-app deploy lock, optionally waiting for the current holder to finish
+export async function acquireDeployLock(
+  name: string,
+  options: {
+    wait?: boolean
+    pollMs?: number
+    onWait?: (pid: number) => void
+  } = {}
+): Promise<DeployLock> {
+  let waitingOn: number | null = null
+
+  for (;;) {
+    const holder = await tryLock(name)
+    if (holder === null) break
+
+    if (!options.wait) {
+      throw new DeployLockedError(name, holder)
+    }
+    if (holder !== waitingOn) {
+      waitingOn = holder
+      options.onWait?.(holder)
+    }
+    await sleep(options.pollMs ?? 1000)
+  }
+
+  // A leftover request was meant for an earlier deploy
+  await rm(getCancelFile(name), { force: true })
+
+  const controller = new AbortController()
+  const watcher = setInterval(async () => {
+    try {
+      const pid = parseInt(await readFile(getCancelFile(name), 'utf-8'), 10)
+      if (pid === process.pid) controller.abort()
+    } catch {
+      // No cancel request
+    }
+  }, CANCEL_POLL_MS)
+  watcher.unref()
+
+  return {
+    signal: controller.signal,
+    release: async () => {
+      clearInterval(watcher)
+      await rm(getCancelFile(name), { force: true })
+      await rm(getLockFile(name), { force: true })
+    },
+  }
+}
+
+// Wait until a process no longer holds the lock (false on timeout)
+export async function waitForRelease(name: string, pid: number, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs
+  while (Date.now() < deadline) {
+    const holder = await getLockHolder(name)
+    if (holder !== pid || !isProcessAlive(pid)) return true
+    await sleep(CANCEL_POLL_MS)
+  }
+  return false
+}
+
+// Ask the process holding a lock to cancel its deploy
+// Returns the holder's PID, or null if no deploy is running.
+export async function requestCancel(name: string): Promise<number | null> {
+  const holder = await getLockHolder(name)
+  if (!holder || !isProcessAlive(holder)) {
+    return null
+  }
+
+  await writeFile(getCancelFile(name), String(holder))
+  return holder
+}
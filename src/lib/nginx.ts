@@ -4,6 +4,7 @@ import { join } from 'path'
 import { execa } from 'execa'
 import type { AppConfig, EngineConfig, ModuleConfig } from '../schemas/index.js'
 import { NGINX_AVAILABLE, NGINX_ENABLED } from '../utils/paths.js'
+import { getReleasePaths } from './releases.js'
 
 // Generate nginx config for a proxy app
 export function generateProxyConfig(config: AppConfig): string {
@@ -100,7 +101,8 @@ ${websocketConfig}
 // Generate nginx config for a static site
 export function generateStaticConfig(config: AppConfig): string {
   const domain = config.domain
-  const root = config.path
+  const current = getReleasePaths(config.path).current
+  const root = config.root ? join(current, config.root) : current
   const nginx = config.nginx || {}
 
   const aliases = config.aliases?.length
@@ -329,6 +331,28 @@ export async function testNginxConfig(): Promise<{ valid: boolean; error?: strin
   }
 }
 
+// Write, enable and reload a single config
+// Restores the previous file and throws if nginx rejects the new one.
+export async function applyNginxConfig(name: string, content: string): Promise<void> {
+  const path = join(NGINX_AVAILABLE, getNginxConfigName(name))
+  const previous = existsSync(path) ? await readFile(path, 'utf-8') : null
+
+  await writeNginxConfig(name, content)
+  await enableNginxConfig(name)
+
+  const test = await testNginxConfig()
+  if (!test.valid) {
+    if (previous !== null) {
+      await writeFile(path, previous)
+    } else {
+      await disableNginxConfig(name)
+    }
+    throw new Error(`Nginx rejected config for ${name}: ${test.error || 'unknown error'}`)
+  }
+
+  await reloadNginx()
+}
+
 // Reload nginx
 export async function reloadNginx(): Promise<void> {
   await execa('sudo', ['systemctl', 'reload', 'nginx'])
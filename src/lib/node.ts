@@ -0,0 +1,188 @@
+import { execa } from 'execa'
+import { existsSync } from 'fs'
+import { readdir, readFile } from 'fs/promises'
+import { homedir } from 'os'
+import { join } from 'path'
+import type { ResolvedRuntime } from '../schemas/index.js'
+import { NODE_VERSIONS_DIR } from '../utils/paths.js'
+
+// An installed Node.js version
+export interface NodeInstall {
+  version: string // e.g. "22.3.0"
+  binDir: string | null // Directory holding `node`; null for the node already on PATH
+}
+
+// Where a node version requirement came from
+export type NodeVersionSource = 'config' | '.nvmrc' | '.node-version' | 'engines.node' | 'default'
+
+export interface NodeResolution {
+  spec: string
+  source: NodeVersionSource
+  install: NodeInstall | null // null if no installed version satisfies the spec
+}
+
+// Runtimes whose commands run on node (bun and deno bring their own)
+export function usesNode(runtime: ResolvedRuntime): boolean {
+  return runtime !== 'bun' && runtime !== 'deno'
+}
+
+// Directories holding one subdirectory per installed version, and the path
+// from a version directory to its bin/ (shyp-managed first, then nvm and fnm)
+function getVersionRoots(): { root: string; bin: string }[] {
+  const home = homedir()
+  const fnmDir = process.env.FNM_DIR || join(home, '.local', 'share', 'fnm')
+
+  return [
+    { root: NODE_VERSIONS_DIR, bin: 'bin' },
+    { root: join(process.env.NVM_DIR || join(home, '.nvm'), 'versions', 'node'), bin: 'bin' },
+    { root: join(fnmDir, 'node-versions'), bin: join('installation', 'bin') },
+    { root: join(home, '.fnm', 'node-versions'), bin: join('installation', 'bin') },
+  ]
+}
+
+// Every Node.js version found on this machine, including the one on PATH
+export async function listInstalledNodeVersions(): Promise<NodeInstall[]> {
+  const installs: NodeInstall[] = []
+
+  for (const { root, bin } of getVersionRoots()) {
+    if (!existsSync(root)) continue
+    for (const entry of await readdir(root)) {
+      const binDir = join(root, entry, bin)
+      if (parseVersion(entry) && existsSync(join(binDir, 'node'))) {
+        installs.push({ version: entry.replace(/^v/, ''), binDir })
+      }
+    }
+  }
+
+  const pathVersion = await getPathNodeVersion()
+  if (pathVersion) {
+    installs.push({ version: pathVersion, binDir: null })
+  }
+
+  return installs
+}
+
+// Version of the node on PATH (null if there is none)
+export async function getPathNodeVersion(): Promise<string | null> {
+  try {
+    const { stdout } = await execa('node', ['--version'])
+    return stdout.trim().replace(/^v/, '')
+  } catch {
+    return null
+  }
+}
+
+// Parse "v22.3.0" / "22.3" / "22" into numbers (missing parts are undefined)
+function parseVersion(version: string): number[] | null {
+  const match = version.trim().match(/^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?$/)
+  return match ? match.slice(1).filter(Boolean).map(Number) : null
+}
+
+// Compare two versions part by part, treating missing parts as 0
+function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < 3; i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0)
+    if (diff !== 0) return diff
+  }
+  return 0
+}
+
+// Check a single comparator: "22", "22.3", "22.x", "^20.1", "~20.1", ">=18", "<23", "*"
+function satisfiesComparator(comparator: string, version: number[]): boolean {
+  const match = comparator.match(/^(\^|~|>=|<=|>|<|=)?v?(.*)$/)
+  if (!match) return false
+  const [, operator = '', rest] = match
+
+  if (rest === '' || rest === '*' || rest === 'x') return true
+  const wanted = parseVersion(rest.replace(/(\.[x*])+$/i, ''))
+  if (!wanted) return false
+
+  const cmp = compareVersions(version, wanted)
+  switch (operator) {
+    case '>=': return cmp >= 0
+    case '>': return cmp > 0
+    case '<=': return cmp <= 0
+    case '<': return cmp < 0
+    case '^': return version[0] === wanted[0] && cmp >= 0
+    case '~': return version[0] === wanted[0] && version[1] === (wanted[1] ?? version[1]) && cmp >= 0
+    default:
+      // Exact, or a prefix like "22" / "22.3"
+      return wanted.every((part, i) => version[i] === part)
+  }
+}
+
+// Check a version against a spec as found in .nvmrc or engines.node
+// Supports prefixes, x-ranges, ^, ~, comparisons, space-separated AND and "||" OR.
+export function matchesNodeVersion(spec: string, version: string): boolean {
+  const parsed = parseVersion(version)
+  if (!parsed) return false
+
+  return spec.split('||').some(alternative => {
+    const comparators = alternative.trim().replace(/([<>=^~]+)\s+/g, '$1').split(/\s+/)
+    return comparators.every(comparator => satisfiesComparator(comparator, parsed))
+  })
+}
+
+// Installed version matching a spec: the node on PATH if it does, so ranges
+// like ">=18" keep the node apps already ran on, else the highest match
+export async function findNodeInstall(spec: string): Promise<NodeInstall | null> {
+  const matches = (await listInstalledNodeVersions())
+    .filter(install => matchesNodeVersion(spec, install.version))
+    .sort((a, b) => compareVersions(parseVersion(b.version)!, parseVersion(a.version)!))
+  return matches.find(install => install.binDir === null) ?? matches[0] ?? null
+}
+
+// Node version a project asks for: .nvmrc, .node-version, then engines.node in package.json
+// The first directory that has any of them wins.
+export async function readProjectNodeVersion(
+  dirs: string[]
+): Promise<{ spec: string; source: NodeVersionSource } | null> {
+  for (const dir of dirs) {
+    for (const file of ['.nvmrc', '.node-version'] as const) {
+      const path = join(dir, file)
+      if (existsSync(path)) {
+        const spec = (await readFile(path, 'utf-8')).trim()
+        if (spec) return { spec, source: file }
+      }
+    }
+
+    const packageJson = join(dir, 'package.json')
+    if (existsSync(packageJson)) {
+      try {
+        const spec = JSON.parse(await readFile(packageJson, 'utf-8')).engines?.node
+        if (typeof spec === 'string' && spec.trim()) return { spec: spec.trim(), source: 'engines.node' }
+      } catch {
+        // Invalid package.json: let the build report it
+      }
+    }
+  }
+
+  return null
+}
+
+// Work out which node to use: the configured version, else the project's, else the default
+// (null when none of them names one, so the node on PATH is used as before)
+export async function resolveNodeVersion(options: {
+  configured?: string
+  dirs: string[]
+  fallback?: string
+}): Promise<NodeResolution | null> {
+  const wanted = options.configured
+    ? { spec: options.configured, source: 'config' as const }
+    : await readProjectNodeVersion(options.dirs) ??
+      (options.fallback ? { spec: options.fallback, source: 'default' as const } : null)
+  if (!wanted) return null
+
+  return { ...wanted, install: await findNodeInstall(wanted.spec) }
+}
+
+// Environment that puts an installed node first on PATH
+export function nodeEnv(install: NodeInstall | null | undefined): Record<string, string> {
+  if (!install?.binDir) return {}
+  return { PATH: `${install.binDir}:${process.env.PATH ?? ''}` }
+}
+
+// Node binary of an install, for PM2's --interpreter
+export function nodeBinary(install: NodeInstall | null | undefined): string | undefined {
+  return install?.binDir ? join(install.binDir, 'node') : undefined
+}
@@ -45,6 +45,8 @@ export async function startProcess(
     env?: Record<string, string>
     instances?: number
     maxMemory?: string
+    interpreter?: string // Binary to run the script with ("none" runs it directly)
+    interpreterArgs?: string // Arguments passed to the interpreter before the script
   } = {}
 ): Promise<void> {
   const args = [
@@ -52,6 +54,14 @@ export async function startProcess(
     '--name', name,
   ]
 
+  if (options.interpreter) {
+    args.push('--interpreter', options.interpreter)
+  }
+
+  if (options.interpreterArgs) {
+    args.push('--interpreter-args', options.interpreterArgs)
+  }
+
   if (options.instances) {
     args.push('-i', String(options.instances))
   }
@@ -76,8 +86,17 @@ export async function stopProcess(name: string): Promise<void> {
 }
 
 // Restart a process
-export async function restartProcess(name: string): Promise<void> {
-  await execa('pm2', ['restart', name])
+export async function restartProcess(name: string, env?: Record<string, string>): Promise<void> {
+  await execa('pm2', env ? ['restart', name, '--update-env'] : ['restart', name], {
+    env: { ...process.env, ...env },
+  })
+}
+
+// Reload a process with zero downtime (cluster mode restarts instances one by one)
+export async function reloadProcess(name: string, env?: Record<string, string>): Promise<void> {
+  await execa('pm2', ['reload', name, '--update-env'], {
+    env: { ...process.env, ...env },
+  })
 }
 
 // Delete a process
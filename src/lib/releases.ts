@@ -0,0 +1,113 @@
+import { mkdir, readdir, readlink, rename, rm, symlink } from 'fs/promises'
+import { existsSync } from 'fs'
+import { basename, join } from 'path'
+import type { GitOptions } from '../schemas/index.js'
+import * as git from './git.js'
+
+// Release layout inside an app's path:
+//   repo/            git clone shared by all releases (no checkout)
+//   releases/<id>/   one working tree per deployment
+//   current          symlink to the live release
+export interface ReleasePaths {
+  root: string
+  repo: string
+  releases: string
+  current: string
+}
+
+// Get release layout paths for an app
+export function getReleasePaths(appPath: string): ReleasePaths {
+  return {
+    root: appPath,
+    repo: join(appPath, 'repo'),
+    releases: join(appPath, 'releases'),
+    current: join(appPath, 'current'),
+  }
+}
+
+// Get the directory of a single release
+export function getReleaseDir(appPath: string, deploymentId: string): string {
+  return join(getReleasePaths(appPath).releases, deploymentId)
+}
+
+// Get the deployment ID of the live release
+export async function getCurrentRelease(appPath: string): Promise<string | null> {
+  try {
+    return basename(await readlink(getReleasePaths(appPath).current))
+  } catch {
+    return null
+  }
+}
+
+// List release IDs, newest first
+export async function listReleases(appPath: string): Promise<string[]> {
+  const { releases } = getReleasePaths(appPath)
+  if (!existsSync(releases)) {
+    return []
+  }
+
+  const entries = await readdir(releases, { withFileTypes: true })
+  return entries
+    .filter(e => e.isDirectory())
+    .map(e => e.name)
+    .sort()
+    .reverse()
+}
+
+// Check out a commit into a new release directory
+export async function createRelease(
+  appPath: string,
+  deploymentId: string,
+  commit: string,
+  options: {
+    sshKey?: string
+    git?: GitOptions
+  } = {}
+): Promise<string> {
+  const paths = getReleasePaths(appPath)
+  const dir = getReleaseDir(appPath, deploymentId)
+
+  await mkdir(paths.releases, { recursive: true })
+  await git.addWorktree(paths.repo, dir, commit, options)
+
+  return dir
+}
+
+// Create an empty release directory (filled from an artifact instead of git)
+export async function createEmptyRelease(appPath: string, deploymentId: string): Promise<string> {
+  const dir = getReleaseDir(appPath, deploymentId)
+  await mkdir(dir, { recursive: true })
+  return dir
+}
+
+// Point the current symlink at a release (rename over the old link is atomic)
+export async function activateRelease(appPath: string, deploymentId: string): Promise<void> {
+  const { current } = getReleasePaths(appPath)
+  const tmpLink = `${current}.${deploymentId}.tmp`
+
+  await rm(tmpLink, { force: true })
+  await symlink(join('releases', deploymentId), tmpLink)
+  await rename(tmpLink, current)
+}
+
+// Remove a release and its git working tree
+export async function removeRelease(appPath: string, deploymentId: string): Promise<void> {
+  const dir = getReleaseDir(appPath, deploymentId)
+  await git.removeWorktree(getReleasePaths(appPath).repo, dir)
+  await rm(dir, { recursive: true, force: true })
+}
+
+// Remove old releases, keeping the newest `keep` and always the live one
+export async function pruneReleases(appPath: string, keep: number): Promise<string[]> {
+  const current = await getCurrentRelease(appPath)
+  const releases = await listReleases(appPath)
+  const stale = releases
+    .slice(Math.max(keep, 1))
+    .filter(id => id !== current)
+
+  for (const id of stale) {
+    await removeRelease(appPath, id)
+  }
+
+  return stale
+}
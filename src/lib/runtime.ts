@@ -0,0 +1,193 @@
+import { execa } from 'execa'
+import { existsSync } from 'fs'
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { Runtime, ResolvedRuntime, RuntimeCommands } from '../schemas/index.js'
+import { RUNTIME_COMMANDS } from '../schemas/app.js'
+import * as git from './git.js'
+
+// Lockfiles that give a runtime away, in the order they are checked
+// (a Deno config without a lockfile counts too)
+const RUNTIME_LOCKFILES: [file: string, runtime: ResolvedRuntime][] = [
+  ['bun.lockb', 'bun'],
+  ['bun.lock', 'bun'],
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['deno.lock', 'deno'],
+  ['package-lock.json', 'npm'],
+  ['deno.json', 'deno'],
+  ['deno.jsonc', 'deno'],
+]
+
+// A runtime, what it was picked from ("config", "packageManager", a lockfile
+// name, or "default" when `auto` found nothing) and its default commands
+export interface DetectedRuntime {
+  runtime: ResolvedRuntime
+  source: string
+  commands: RuntimeCommands
+}
+
+// Access to a project's files, in a directory or at a commit of a git repo
+export interface ProjectReader {
+  exists(file: string): Promise<boolean>
+  read(file: string): Promise<string | undefined>
+}
+
+// Read project files from a directory
+export function directoryReader(dir: string): ProjectReader {
+  return {
+    exists: async file => existsSync(join(dir, file)),
+    read: async file => existsSync(join(dir, file)) ? readFile(join(dir, file), 'utf-8') : undefined,
+  }
+}
+
+// Read project files from a commit (optionally inside a subdirectory of the repo)
+// `sshKey` is used when files have to be fetched, as in a blobless clone.
+export function commitReader(
+  repoPath: string,
+  commit: string,
+  dir?: string,
+  options: { sshKey?: string } = {}
+): ProjectReader {
+  const path = (file: string) => dir ? `${dir.replace(/\/$/, '')}/${file}` : file
+  return {
+    exists: file => git.fileExistsAt(repoPath, commit, path(file), options),
+    read: file => git.readFileAt(repoPath, commit, path(file), options),
+  }
+}
+
+// Runtime named by packageManager in package.json (e.g. "pnpm@9.1.0")
+async function readPackageManager(reader: ProjectReader): Promise<ResolvedRuntime | null> {
+  const packageJson = await reader.read('package.json')
+  if (!packageJson) return null
+
+  try {
+    const name = String(JSON.parse(packageJson).packageManager ?? '').split('@')[0]
+    return name in RUNTIME_COMMANDS ? name as ResolvedRuntime : null
+  } catch {
+    return null
+  }
+}
+
+// Work out a project's runtime: packageManager in package.json, else its lockfile
+// Readers are tried in order (e.g. a monorepo app's root before the repo root).
+export async function detectRuntime(
+  readers: ProjectReader[]
+): Promise<Omit<DetectedRuntime, 'commands'> | null> {
+  for (const reader of readers) {
+    const packageManager = await readPackageManager(reader)
+    if (packageManager) {
+      return { runtime: packageManager, source: 'packageManager' }
+    }
+
+    for (const [file, runtime] of RUNTIME_LOCKFILES) {
+      if (await reader.exists(file)) {
+        return { runtime, source: file }
+      }
+    }
+  }
+
+  return null
+}
+
+// Tasks from deno.json / deno.jsonc (null without a Deno config)
+async function readDenoTasks(reader: ProjectReader): Promise<Record<string, string> | null> {
+  for (const file of ['deno.json', 'deno.jsonc']) {
+    const content = await reader.read(file)
+    if (content === undefined) continue
+
+    try {
+      // Drop comments and trailing commas (JSONC), leaving strings alone
+      const json = content
+        .replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (_, string) => string ?? '')
+        .replace(/,(\s*[}\]])/g, '$1')
+      const tasks = JSON.parse(json).tasks ?? {}
+      // Tasks are strings, or objects with a `command` (Deno 2.1+)
+      return Object.fromEntries(Object.entries(tasks).map(([name, task]) => [
+        name,
+        typeof task === 'string' ? task : String((task as { command?: string })?.command ?? ''),
+      ]))
+    } catch {
+      return {}
+    }
+  }
+  return null
+}
+
+// Default commands for a runtime in a project
+// Deno only builds when there is a `build` task, and Fresh-style projects whose
+// `start` task runs in watch mode are started with their `preview` task instead.
+export async function getRuntimeCommands(
+  runtime: ResolvedRuntime,
+  readers: ProjectReader[]
+): Promise<RuntimeCommands> {
+  const commands: RuntimeCommands = { ...RUNTIME_COMMANDS[runtime] }
+  if (runtime !== 'deno') {
+    return commands
+  }
+
+  let tasks: Record<string, string> = {}
+  for (const reader of readers) {
+    const found = await readDenoTasks(reader)
+    if (found) {
+      tasks = found
+      break
+    }
+  }
+
+  if (!tasks.build) {
+    commands.build = commands.install
+  }
+  if (tasks.preview && /--watch\b/.test(tasks.start ?? '')) {
+    commands.start = 'deno task preview'
+  }
+  return commands
+}
+
+// Runtime to run a project with (`auto` is detected, falling back to npm)
+export async function resolveRuntime(
+  runtime: Runtime | undefined,
+  readers: ProjectReader[]
+): Promise<DetectedRuntime> {
+  const resolved = runtime !== 'auto'
+    ? { runtime: runtime || 'npm', source: 'config' }
+    : await detectRuntime(readers) ?? { runtime: 'npm' as const, source: 'default' }
+
+  return { ...resolved, commands: await getRuntimeCommands(resolved.runtime, readers) }
+}
+
+// Detect the runtime of a remote repo's branch (null if nothing gives it away)
+// Makes a throwaway blobless clone, so only the files read are downloaded.
+export async function detectRepoRuntime(
+  repo: string,
+  options: {
+    branch?: string
+    sshKey?: string
+  } = {}
+): Promise<DetectedRuntime | null> {
+  const dir = await mkdtemp(join(tmpdir(), 'shyp-inspect-'))
+  try {
+    await git.cloneForInspection(repo, dir, options)
+    const readers = [commitReader(dir, 'HEAD', undefined, { sshKey: options.sshKey })]
+    const detected = await detectRuntime(readers)
+    return detected && { ...detected, commands: await getRuntimeCommands(detected.runtime, readers) }
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
+
+// Describe a resolved runtime for logs, e.g. "pnpm (from pnpm-lock.yaml)"
+export function describeRuntime({ runtime, source }: DetectedRuntime): string {
+  return source === 'config' ? runtime : `${runtime} (from ${source})`
+}
+
+// Check if deno is available
+export async function isDenoAvailable(): Promise<boolean> {
+  try {
+    await execa('deno', ['--version'])
+    return true
+  } catch {
+    return false
+  }
+}
@@ -1,4 +1,4 @@
-import { readFile, writeFile, mkdir } from 'fs/promises'
+import { readFile, writeFile, mkdir, rename } from 'fs/promises'
 import { existsSync } from 'fs'
 import { dirname } from 'path'
 import {
@@ -6,6 +6,9 @@ import {
   type DeploymentsState,
   type HealthState,
   type DeploymentRecord,
+  type BlueGreenPair,
+  type EngineConfig,
+  type ModuleConfig,
   PortAllocationsSchema,
   DeploymentsStateSchema,
   HealthStateSchema,
@@ -40,10 +43,27 @@ async function loadStateFile<T>(
   return schema.parse(data)
 }
 
+// Temp files written by this process, numbered so writes never share one
+let tempFileCount = 0
+
 // Save JSON state file
+// Written to a temp file and renamed into place, so readers never see half a file.
 async function saveStateFile(path: string, data: unknown): Promise<void> {
   await ensureStateDir()
-  await writeFile(path, JSON.stringify(data, null, 2))
+  const temp = `${path}.${process.pid}-${++tempFileCount}.tmp`
+  await writeFile(temp, JSON.stringify(data, null, 2))
+  await rename(temp, path)
+}
+
+// Pending updates per state file
+const stateLocks = new Map<string, Promise<unknown>>()
+
+// Run a load-modify-save of a state file after the updates already queued for it,
+// so parallel deploys in this process don't overwrite each other's changes
+function withStateLock<T>(path: string, update: () => Promise<T>): Promise<T> {
+  const result = (stateLocks.get(path) ?? Promise.resolve()).then(update)
+  stateLocks.set(path, result.catch(() => { }))
+  return result
 }
 
 // Default port allocations
@@ -51,6 +71,8 @@ const defaultPortAllocations: PortAllocations = {
   allocations: {},
   reserved: [4040, 8080, 9000], // Wyrt HTTP, WS, webhook
   engine_managed: {},
+  modules: {},
+  blue_green: {},
   ranges: {
     standard: { ...PORT_RANGES.standard, next: PORT_RANGES.standard.start },
     games: { ...PORT_RANGES.games, next: PORT_RANGES.games.start },
@@ -68,19 +90,12 @@ export async function savePortAllocations(state: PortAllocations): Promise<void>
   await saveStateFile(PORTS_FILE, state)
 }
 
-// Allocate a port for an app
-export async function allocatePort(
+// Find the next free port in a range (does not save state)
+async function findFreePort(
+  state: PortAllocations,
   appName: string,
-  range: 'standard' | 'games' | 'special' = 'standard'
+  range: 'standard' | 'games' | 'special'
 ): Promise<number> {
-  const state = await loadPortAllocations()
-
-  // Check if already allocated in state
-  if (state.allocations[appName]) {
-    return state.allocations[appName]
-  }
-
-  // Find next available port
   const rangeConfig = state.ranges?.[range] || defaultPortAllocations.ranges![range]
   let port = rangeConfig.next
 
@@ -89,6 +104,7 @@ export async function allocatePort(
     ...Object.values(state.allocations),
     ...state.reserved,
     ...Object.values(state.engine_managed).flat(),
+    ...Object.values(state.blue_green).flatMap(pair => pair.ports),
   ])
 
   // Also check hardcoded ports in app config files
@@ -112,16 +128,159 @@ export async function allocatePort(
     throw new Error(`No available ports in ${range} range (${rangeConfig.start}-${rangeConfig.end})`)
   }
 
-  // Update state
-  state.allocations[appName] = port
-  if (state.ranges) {
-    state.ranges[range].next = port + 1
-  }
-
-  await savePortAllocations(state)
   return port
 }
 
+// Allocate a port for an app
+export async function allocatePort(
+  appName: string,
+  range: 'standard' | 'games' | 'special' = 'standard'
+): Promise<number> {
+  return withStateLock(PORTS_FILE, async () => {
+    const state = await loadPortAllocations()
+
+    // Check if already allocated in state
+    if (state.allocations[appName]) {
+      return state.allocations[appName]
+    }
+
+    const port = await findFreePort(state, appName, range)
+
+    // Update state
+    state.allocations[appName] = port
+    if (state.ranges) {
+      state.ranges[range].next = port + 1
+    }
+
+    await savePortAllocations(state)
+    return port
+  })
+}
+
+// Get or create the blue/green port pair for an app
+// The app's own port becomes the first of the pair; the second comes from the same range.
+export async function allocatePortPair(
+  appName: string,
+  port: number,
+  range: 'standard' | 'games' | 'special' = 'standard'
+): Promise<BlueGreenPair> {
+  return withStateLock(PORTS_FILE, async () => {
+    const state = await loadPortAllocations()
+
+    if (state.blue_green[appName]) {
+      return state.blue_green[appName]
+    }
+
+    // Keep the app's port out of the search
+    state.blue_green[appName] = { ports: [port, port], active: port }
+    const second = await findFreePort(state, appName, range)
+
+    const pair: BlueGreenPair = { ports: [port, second], active: port }
+    state.blue_green[appName] = pair
+    if (state.ranges) {
+      state.ranges[range].next = second + 1
+    }
+
+    await savePortAllocations(state)
+    return pair
+  })
+}
+
+// Mark which port of a blue/green pair is serving traffic
+export async function setActivePort(appName: string, port: number): Promise<void> {
+  return withStateLock(PORTS_FILE, async () => {
+    const state = await loadPortAllocations()
+    const pair = state.blue_green[appName]
+    if (!pair) {
+      throw new Error(`No blue/green ports allocated for ${appName}`)
+    }
+
+    pair.active = port
+    await savePortAllocations(state)
+  })
+}
+
+// A module's port: its configured one, else the one assigned by allocateModulePorts
+export function getModulePort(
+  state: PortAllocations,
+  engineName: string,
+  moduleName: string,
+  moduleConfig: ModuleConfig
+): number | undefined {
+  return moduleConfig.port ?? state.modules[`${engineName}/${moduleName}`]
+}
+
+// Assign ports to an engine's modules that don't declare one, from the engine's
+// ports.module_start..module_end range. Earlier assignments are kept, and all of
+// the engine's module ports are recorded in engine_managed so app allocation skips them.
+// Returns the ports newly assigned, by module name (without saving them on a dry run).
+export async function allocateModulePorts(
+  engine: EngineConfig,
+  options: { dryRun?: boolean } = {}
+): Promise<Record<string, number>> {
+  return withStateLock(PORTS_FILE, async () => {
+    const state = await loadPortAllocations()
+    const prefix = `${engine.name}/`
+    const { module_start: start, module_end: end } = engine.server.ports || {}
+
+    // Forget assignments for modules that were removed or now declare a port
+    for (const key of Object.keys(state.modules)) {
+      if (!key.startsWith(prefix)) continue
+      const module = engine.modules[key.slice(prefix.length)]
+      if (!module || module.port !== undefined) {
+        delete state.modules[key]
+      }
+    }
+
+    const usedPorts = new Set([
+      ...Object.values(state.allocations),
+      ...state.reserved,
+      ...Object.entries(state.engine_managed).filter(([name]) => name !== engine.name).flatMap(([, ports]) => ports),
+      ...Object.values(state.blue_green).flatMap(pair => pair.ports),
+      ...Object.values(state.modules),
+      ...Object.values(engine.modules).flatMap(module => module.port ?? []),
+    ])
+
+    try {
+      for (const config of (await loadAppConfigs()).values()) {
+        if (config.port) usedPorts.add(config.port)
+      }
+    } catch {
+      // Continue with state-based allocation
+    }
+
+    const assigned: Record<string, number> = {}
+    for (const [moduleName, moduleConfig] of Object.entries(engine.modules)) {
+      if (getModulePort(state, engine.name, moduleName, moduleConfig) !== undefined) continue
+
+      if (start === undefined || end === undefined) {
+        throw new Error(`Module ${engine.name}/${moduleName} has no port and ${engine.name} has no ports.module_start/module_end`)
+      }
+
+      let port = start
+      while (usedPorts.has(port) && port <= end) {
+        port++
+      }
+      if (port > end) {
+        throw new Error(`No available ports in ${engine.name}'s module range (${start}-${end})`)
+      }
+
+      usedPorts.add(port)
+      state.modules[`${prefix}${moduleName}`] = port
+      assigned[moduleName] = port
+    }
+
+    state.engine_managed[engine.name] = Object.entries(engine.modules)
+      .map(([moduleName, moduleConfig]) => getModulePort(state, engine.name, moduleName, moduleConfig)!)
+      .sort((a, b) => a - b)
+
+    if (!options.dryRun) {
+      await savePortAllocations(state)
+    }
+    return assigned
+  })
+}
+
 // Load deployments state
 export async function loadDeployments(): Promise<DeploymentsState> {
   return loadStateFile(DEPLOYMENTS_FILE, DeploymentsStateSchema, {})
@@ -137,19 +296,21 @@ export async function recordDeployment(
   appName: string,
   record: DeploymentRecord
 ): Promise<void> {
-  const state = await loadDeployments()
+  return withStateLock(DEPLOYMENTS_FILE, async () => {
+    const state = await loadDeployments()
 
-  if (!state[appName]) {
-    state[appName] = { history: [] }
-  }
+    if (!state[appName]) {
+      state[appName] = { history: [] }
+    }
 
-  state[appName].current = record.id
-  state[appName].history.unshift(record)
+    state[appName].current = record.id
+    state[appName].history.unshift(record)
 
-  // Keep only recent deployments
-  state[appName].history = state[appName].history.slice(0, 10)
+    // Keep only recent deployments
+    state[appName].history = state[appName].history.slice(0, 10)
 
-  await saveDeployments(state)
+    await saveDeployments(state)
+  })
 }
 
 // Get last successful deployment
@@ -161,6 +322,53 @@ export function getLastSuccessfulDeployment(
   return history.find(d => d.status === 'success') || null
 }
 
+// Find a deployment record by ID
+export function findDeployment(
+  state: DeploymentsState,
+  appName: string,
+  deploymentId: string
+): DeploymentRecord | null {
+  const history = state[appName]?.history || []
+  return history.find(d => d.id === deploymentId) || null
+}
+
+// Get the last successful deployment of a different commit before the live one
+// When the live deployment is itself a rollback, the search starts from the
+// deployment it restored, so repeated rollbacks keep going back instead of
+// flipping between two releases. Deployments that were rolled back are skipped.
+export function getPreviousSuccessfulDeployment(
+  state: DeploymentsState,
+  appName: string
+): DeploymentRecord | null {
+  const live = getLastSuccessfulDeployment(state, appName)
+  if (!live) return null
+
+  const history = state[appName]?.history || []
+  const reverted = new Set(history.filter(d => d.status === 'success').map(d => d.rollback_of))
+
+  let position = live
+  const seen = new Set<string>()
+  while (position.rollback_to && !seen.has(position.id)) {
+    seen.add(position.id)
+    const restored = findDeployment(state, appName, position.rollback_to)
+    if (!restored) break
+    position = restored
+  }
+
+  return history.slice(history.indexOf(position) + 1).find(d =>
+    d.status === 'success' && !reverted.has(d.id) && d.commit && d.commit !== live.commit
+  ) || null
+}
+
+// Load, change and save health state as a single update
+export async function updateHealth(update: (state: HealthState) => void): Promise<void> {
+  await withStateLock(HEALTH_FILE, async () => {
+    const state = await loadHealth()
+    update(state)
+    await saveHealth(state)
+  })
+}
+
 // Load health state
 export async function loadHealth(): Promise<HealthState> {
   return loadStateFile(HEALTH_FILE, HealthStateSchema, {})
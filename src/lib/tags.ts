@@ -0,0 +1,34 @@
+// Tag selectors, as given with repeated --tag flags:
+//   web          has the tag "web"
+//   !staging     does not have the tag "staging"
+//   a,b          has "a" or "b"
+// An app matches when every selector matches.
+
+// Check a single selector against an app's tags
+function matchesSelector(tags: string[], selector: string): boolean {
+  return selector
+    .split(',')
+    .map(term => term.trim())
+    .filter(Boolean)
+    .some(term => term.startsWith('!')
+      ? !tags.includes(term.slice(1))
+      : tags.includes(term))
+}
+
+// Check whether tags satisfy all selectors (no selectors matches everything)
+export function matchesTags(tags: string[], selectors: string[] = []): boolean {
+  return selectors.every(selector => matchesSelector(tags, selector))
+}
+
+// Keep the configs whose tags satisfy all selectors
+export function selectByTags<T extends { tags: string[] }>(
+  configs: Map<string, T>,
+  selectors: string[] = []
+): Map<string, T> {
+  return new Map([...configs].filter(([, config]) => matchesTags(config.tags, selectors)))
+}
+
+// Describe selectors for messages, e.g. "web + !staging"
+export function formatTagSelectors(selectors: string[]): string {
+  return selectors.join(' + ')
+}
@@ -0,0 +1,50 @@
+import type { AppConfig } from '../schemas/index.js'
+
+// Convert a glob to a regular expression
+//   **   any number of path segments
+//   *    anything except "/"
+//   ?    one character except "/"
+// A pattern without wildcards also matches everything below it as a directory.
+export function globToRegExp(pattern: string): RegExp {
+  const glob = pattern.replace(/^\.?\//, '').replace(/\/$/, '/**')
+  let source = ''
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" may also match no directories at all
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?'
+        i += 2
+      } else {
+        source += '.*'
+        i += 1
+      }
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+
+  if (!/[*?]/.test(glob)) {
+    source += '(?:/.*)?'
+  }
+
+  return new RegExp(`^${source}$`)
+}
+
+// Repo paths whose changes should redeploy an app
+export function getWatchPaths(config: AppConfig): string[] {
+  if (config.watch_paths?.length) return config.watch_paths
+  if (config.root) return [config.root]
+  return ['**']
+}
+
+// Check whether any changed file falls under an app's watch paths
+export function hasWatchedChanges(config: AppConfig, files: string[]): boolean {
+  const patterns = getWatchPaths(config).map(globToRegExp)
+  return files.some(file => patterns.some(pattern => pattern.test(file)))
+}
@@ -4,11 +4,21 @@ import { z } from 'zod'
 export const AppTypeSchema = z.enum(['nextjs', 'node', 'static', 'script'])
 export type AppType = z.infer<typeof AppTypeSchema>
 
-// Runtime / package manager
-export const RuntimeSchema = z.enum(['npm', 'bun', 'pnpm', 'yarn']).default('npm')
+// Runtime / package manager (`auto` picks one from the repo's lockfile at deploy time)
+export const ResolvedRuntimeSchema = z.enum(['npm', 'bun', 'pnpm', 'yarn', 'deno'])
+export type ResolvedRuntime = z.infer<typeof ResolvedRuntimeSchema>
+export const RuntimeSchema = z.enum([...ResolvedRuntimeSchema.options, 'auto']).default('npm')
 export type Runtime = z.infer<typeof RuntimeSchema>
 
-// Runtime command mappings
+// Commands a runtime installs, builds, starts and runs scripts with
+export interface RuntimeCommands {
+  install: string
+  build: string
+  start: string
+  run: string
+}
+
+// Runtime command mappings (deno's are adjusted to the project's deno.json tasks in lib/runtime.ts)
 export const RUNTIME_COMMANDS = {
   npm: {
     install: 'npm ci',
@@ -34,18 +44,54 @@ export const RUNTIME_COMMANDS = {
     start: 'yarn start',
     run: 'yarn run',
   },
+  deno: {
+    install: 'deno install',
+    build: 'deno install && deno task build',
+    start: 'deno task start',
+    run: 'deno task',
+  },
 } as const
 
 // Deploy modes
 export const DeployModeSchema = z.enum(['pm2', 'script'])
 export type DeployMode = z.infer<typeof DeployModeSchema>
 
+// PM2 release strategies
+// restart:    replace the process in place
+// blue_green: start the new process on a second port, switch nginx, then stop the old one
+export const DeployStrategySchema = z.enum(['restart', 'blue_green'])
+export type DeployStrategy = z.infer<typeof DeployStrategySchema>
+
 // Build configuration (command default is runtime-dependent, applied in deploy.ts)
 export const BuildConfigSchema = z.object({
   command: z.string().optional(),
   timeout: z.number().default(600),
 }).partial()
 
+// Clone and checkout options
+export const GitOptionsSchema = z.object({
+  submodules: z.boolean().default(false), // Check out submodules recursively
+  lfs: z.boolean().default(false), // Fetch Git LFS files (needs git-lfs installed)
+  depth: z.number().int().positive(), // Shallow clone/fetch with this many commits
+  sparse_paths: z.array(z.string()), // Only check out these directories (cone mode)
+}).partial()
+
+export type GitOptions = z.infer<typeof GitOptionsSchema>
+
+// Lifecycle hooks: shell command(s) run in the app's directory with its env
+const HookCommandSchema = z.union([z.string(), z.array(z.string())])
+
+export const HooksSchema = z.object({
+  pre_build: HookCommandSchema, // After checkout, before build
+  post_build: HookCommandSchema, // After a successful build
+  pre_start: HookCommandSchema, // Before the running process is touched (failure aborts)
+  post_start: HookCommandSchema, // After start and health check (failure only warns)
+  on_failure: HookCommandSchema, // When the deploy fails
+}).partial()
+
+export type Hooks = z.infer<typeof HooksSchema>
+export type HookName = keyof Hooks
+
 // Health check configuration
 export const HealthConfigSchema = z.object({
   path: z.string().default('/'),
@@ -54,6 +100,8 @@ export const HealthConfigSchema = z.object({
   timeout: z.number().default(5),
 }).partial()
 
+export type HealthConfig = z.infer<typeof HealthConfigSchema>
+
 // PM2 configuration
 export const PM2ConfigSchema = z.object({
   name: z.string(),
@@ -81,6 +129,7 @@ export const ResourcesSchema = z.object({
 export const AppConfigSchema = z.object({
   name: z.string(),
   description: z.string().optional(),
+  tags: z.array(z.string()).default([]), // For --tag selectors
 
   // Source
   repo: z.string(),
@@ -88,11 +137,25 @@ export const AppConfigSchema = z.object({
   path: z.string(),
   sshKey: z.string().optional(),
 
+  // Monorepos: directory inside the repo the app builds and runs from
+  root: z.string()
+    .refine(p => !p.startsWith('/') && !p.split('/').includes('..'), 'root must be a path inside the repo')
+    .optional(),
+  // Repo paths (globs) whose changes trigger a webhook deploy (default: root, or everything)
+  watch_paths: z.array(z.string()).optional(),
+  git: GitOptionsSchema.optional(),
+
   // Type
   type: AppTypeSchema.default('nextjs'),
 
+  // Apps that must be deployed first by `shyp up` and `shyp deploy --all`
+  depends_on: z.array(z.string()).default([]),
+
   // Runtime / package manager
   runtime: RuntimeSchema,
+  // Node.js version for build and start, e.g. "22" or ">=20" (falls back to
+  // .nvmrc / .node-version / engines.node, then defaults.node_version)
+  node_version: z.string().optional(),
 
   // Domain
   domain: z.string().optional(),
@@ -114,6 +177,7 @@ export const AppConfigSchema = z.object({
   deploy: z.object({
     mode: DeployModeSchema.default('pm2'),
     script: z.string().optional(), // For script mode
+    strategy: DeployStrategySchema.default('restart'), // For pm2 mode
   }).optional(),
 
   // Resources
@@ -127,6 +191,9 @@ export const AppConfigSchema = z.object({
 
   // Health check
   health: HealthConfigSchema.optional(),
+
+  // Lifecycle hooks
+  hooks: HooksSchema.optional(),
 })
 
 export type AppConfig = z.infer<typeof AppConfigSchema>
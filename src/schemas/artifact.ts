@@ -0,0 +1,9 @@
+import { z } from 'zod'
+
+// shyp-artifact.json at the top of a deploy artifact (optional)
+export const ArtifactMetadataSchema = z.object({
+  commit: z.string().optional(), // Full SHA the artifact was built from
+  ref: z.string().optional(), // Branch or tag it was built from
+})
+
+export type ArtifactMetadata = z.infer<typeof ArtifactMetadataSchema>
@@ -16,13 +16,15 @@ export const SSLConfigSchema = z.object({
 
 // Default values
 export const DefaultsSchema = z.object({
-  node_version: z.string().default('23'),
+  node_version: z.string().optional(), // Used when an app sets none and its repo has no .nvmrc / engines.node
   build_timeout: z.number().default(600),
   health_check_timeout: z.number().default(30),
   max_memory: z.string().default('512M'),
   instances: z.number().default(1),
 })
 
+export type Defaults = z.infer<typeof DefaultsSchema>
+
 // Git provider configuration
 export const GitConfigSchema = z.object({
   provider: z.enum(['github', 'gitlab', 'bitbucket']).default('github'),
@@ -34,12 +36,16 @@ export const DeploymentConfigSchema = z.object({
   keep_releases: z.number().default(3),
   health_check_retries: z.number().default(3),
   rollback_on_failure: z.boolean().default(true),
+  concurrency: z.number().int().min(1).default(2), // Parallel app deploys in `shyp up` / `deploy --all`
 })
 
+export type DeploymentConfig = z.infer<typeof DeploymentConfigSchema>
+
 // Server configuration
 export const ServerConfigSchema = z.object({
   webhook_port: z.number().default(DEFAULT_WEBHOOK_PORT),
   webhook_secret: z.string().optional(), // Can use ${SHYP_WEBHOOK_SECRET}
+  max_artifact_mb: z.number().positive().default(1024), // Largest artifact upload accepted
 
   port_ranges: z.object({
     standard: PortRangeSchema.default(PORT_RANGES.standard),
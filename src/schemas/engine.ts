@@ -1,5 +1,13 @@
 import { z } from 'zod'
-import { DeployModeSchema, NginxConfigSchema, PM2ConfigSchema, HealthConfigSchema, RuntimeSchema } from './app.js'
+import {
+  DeployModeSchema,
+  NginxConfigSchema,
+  PM2ConfigSchema,
+  HealthConfigSchema,
+  HooksSchema,
+  RuntimeSchema,
+  GitOptionsSchema,
+} from './app.js'
 
 // Module configuration (generic - works for Wyrt, or any modular system)
 export const ModuleConfigSchema = z.object({
@@ -15,8 +23,8 @@ export const ModuleConfigSchema = z.object({
   domain: z.string().optional(),
   aliases: z.array(z.string()).default([]),
 
-  // Port (typically assigned by engine's module manager)
-  port: z.number(),
+  // Port (assigned from the engine's module_start..module_end range by `shyp sync` if omitted)
+  port: z.number().optional(),
 
   // Deployment
   deploy: z.object({
@@ -42,6 +50,9 @@ export const ModuleConfigSchema = z.object({
   // Environment
   env: z.record(z.string()).default({}),
 
+  // Checked after the module's PM2 process restarts (defaults to the module port)
+  health: HealthConfigSchema.optional(),
+
   // Nginx customization
   nginx: NginxConfigSchema.extend({
     // For engines with shared services (WebSocket, API, etc.)
@@ -68,6 +79,7 @@ export const EngineServerSchema = z.object({
   branch: z.string().default('main'),
   path: z.string(),
   sshKey: z.string().optional(),
+  git: GitOptionsSchema.optional(),
 
   // Engine's fixed ports
   ports: EnginePortsSchema.optional(),
@@ -81,19 +93,21 @@ export const EngineServerSchema = z.object({
     env_file: z.string().optional(),
   }).optional(),
 
-  // Database migrations
+  // Database migrations, run after the build and before the new code starts
   database: z.object({
-    type: z.string().optional(),
-    migrations: z.string().optional(),
-    module_migrations: z.string().optional(),
+    type: z.string().optional(), // Passed to the commands as SHYP_DATABASE_TYPE
+    migrations: z.string().optional(), // Command run in the engine directory on engine deploys
+    module_migrations: z.string().optional(), // Command run in a module's directory on module deploys
   }).optional(),
 
   // Runtime / package manager
   runtime: RuntimeSchema,
+  node_version: z.string().optional(), // Same fallbacks as apps
 
   // Build & start (defaults are runtime-dependent, applied in deploy.ts)
   build: z.object({
     command: z.string().optional(),
+    timeout: z.number().optional(), // Seconds (defaults to server.defaults.build_timeout)
   }).optional(),
 
   start: z.object({
@@ -102,6 +116,9 @@ export const EngineServerSchema = z.object({
 
   // Health check
   health: HealthConfigSchema.optional(),
+
+  // Lifecycle hooks
+  hooks: HooksSchema.optional(),
 })
 
 // Full engine configuration
@@ -109,6 +126,7 @@ export const EngineConfigSchema = z.object({
   type: z.literal('engine'),
   name: z.string(),
   description: z.string().optional(),
+  tags: z.array(z.string()).default([]), // For --tag selectors
 
   // Main engine server
   server: EngineServerSchema,
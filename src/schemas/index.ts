@@ -2,3 +2,4 @@ export * from './app.js'
 export * from './config.js'
 export * from './engine.js'
 export * from './state.js'
+export * from './artifact.js'
@@ -1,10 +1,20 @@
 import { z } from 'zod'
 
+// Blue/green port pair for an app (one process per port, nginx points at the active one)
+export const BlueGreenPairSchema = z.object({
+  ports: z.tuple([z.number(), z.number()]), // [blue, green]
+  active: z.number(),
+})
+
+export type BlueGreenPair = z.infer<typeof BlueGreenPairSchema>
+
 // Port allocation state
 export const PortAllocationsSchema = z.object({
   allocations: z.record(z.number()), // app name -> port
   reserved: z.array(z.number()).default([]),
-  engine_managed: z.record(z.array(z.number())).default({}), // engine name -> ports
+  engine_managed: z.record(z.array(z.number())).default({}), // engine name -> all of its module ports
+  modules: z.record(z.number()).default({}), // "engine/module" -> auto-assigned port
+  blue_green: z.record(BlueGreenPairSchema).default({}), // app name -> port pair
 
   ranges: z.object({
     standard: z.object({
@@ -30,11 +40,21 @@ export type PortAllocations = z.infer<typeof PortAllocationsSchema>
 // Deployment record
 export const DeploymentRecordSchema = z.object({
   id: z.string(), // Timestamp-based ID
-  commit: z.string().optional(),
+  commit: z.string().optional(), // Short hash
+  sha: z.string().optional(), // Full hash
+  ref: z.string().optional(), // Requested branch, tag or commit (when not the configured branch)
   timestamp: z.string().datetime(),
-  status: z.enum(['success', 'failed', 'in_progress']),
+  status: z.enum(['success', 'failed', 'in_progress', 'timed_out', 'cancelled']),
   duration_ms: z.number().optional(),
   error: z.string().optional(),
+  rollback_of: z.string().optional(), // ID of the deployment this one reverted
+  rollback_to: z.string().optional(), // ID of the deployment this one restored
+  lockfile_hash: z.string().optional(), // sha256 of the lockfile the release was installed from
+  build_skipped: z.boolean().optional(), // Commit was already live; the existing release was restarted
+  artifact_sha256: z.string().optional(), // Deployed from a prebuilt artifact with this checksum
+  runtime: z.string().optional(), // Runtime the release was built with (detected for `runtime: auto`)
+  node_version: z.string().optional(), // Node.js version its dependencies were installed with
+  release: z.string().optional(), // Release directory that went live, when not this deployment's own
 })
 
 export type DeploymentRecord = z.infer<typeof DeploymentRecordSchema>
@@ -1,6 +1,12 @@
 import express from 'express'
 import { loadGlobalConfig } from '../lib/config.js'
-import { createWebhookHandler, healthHandler, createManualDeployHandler } from './webhook.js'
+import {
+  createWebhookHandler,
+  healthHandler,
+  createManualDeployHandler,
+  createCancelDeployHandler,
+  createArtifactUploadHandler,
+} from './webhook.js'
 import { log } from '../utils/logger.js'
 import { DEFAULT_WEBHOOK_PORT } from '../utils/paths.js'
 
@@ -34,7 +40,13 @@ export async function startServer(): Promise<void> {
   app.post('/webhook', createWebhookHandler(secret))
 
   // Manual deploy endpoint
-  app.post('/deploy/:name', createManualDeployHandler())
+  app.post('/deploy/:name', createManualDeployHandler(secret))
+
+  // Upload a prebuilt artifact and deploy it (raw body, not parsed)
+  app.post('/artifacts/:name', createArtifactUploadHandler(secret, config.server.max_artifact_mb * 1024 * 1024))
+
+  // Cancel a running deploy
+  app.delete('/deployments/:name', createCancelDeployHandler(secret))
 
   // Start server
   app.listen(port, () => {
@@ -44,6 +56,8 @@ export async function startServer(): Promise<void> {
     log.row('Health:', `http://localhost:${port}/health`)
     log.row('Webhook:', `http://localhost:${port}/`)
     log.row('Deploy:', `POST http://localhost:${port}/deploy/:name`)
+    log.row('Artifacts:', `POST http://localhost:${port}/artifacts/:name`)
+    log.row('Cancel:', `DELETE http://localhost:${port}/deployments/:name`)
     console.log()
     log.dim('Press Ctrl+C to stop')
   })
@@ -1,7 +1,12 @@
 import crypto from 'crypto'
+import { rm } from 'fs/promises'
 import type { Request, Response, NextFunction } from 'express'
 import { loadAppConfigs, loadEngineConfigs, loadGlobalConfig } from '../lib/config.js'
 import { deployApp, deployModule } from '../lib/deploy.js'
+import { requestCancel } from '../lib/lock.js'
+import { ArtifactTooLargeError, saveUploadedArtifact, signaturesMatch } from '../lib/artifacts.js'
+import { hasWatchedChanges } from '../lib/watch.js'
+import { isValidRef } from '../lib/git.js'
 import { log } from '../utils/logger.js'
 
 // Verify GitHub webhook signature
@@ -22,7 +27,18 @@ export function verifySignature(
   }
 }
 
-// Deployment queue to prevent concurrent deploys
+// Check for "Authorization: Bearer <webhook secret>" (always false without a secret)
+export function hasBearerToken(req: Request, secret: string): boolean {
+  const header = req.headers.authorization
+  if (!secret || !header?.startsWith('Bearer ')) return false
+
+  const token = Buffer.from(header.slice('Bearer '.length))
+  const expected = Buffer.from(secret)
+  return token.length === expected.length && crypto.timingSafeEqual(token, expected)
+}
+
+// Deployment queue to prevent concurrent deploys from this server
+// (deploys started elsewhere are covered by the file lock; see lib/lock.ts)
 const deploymentQueue: Map<string, Promise<void>> = new Map()
 
 async function queueDeployment(name: string, fn: () => Promise<void>): Promise<void> {
@@ -43,13 +59,22 @@ async function queueDeployment(name: string, fn: () => Promise<void>): Promise<v
   }
 }
 
-// Find app config by repository name
-async function findAppByRepo(
+// App or engine module deployed from a repository
+interface RepoTarget {
+  type: 'app' | 'module'
+  name: string
+  config: any
+  engine?: any
+}
+
+// Find every app and module config using a repository (monorepos have several)
+async function findTargetsByRepo(
   repoFullName: string,
   repoName: string
-): Promise<{ type: 'app' | 'module'; name: string; config: any; engine?: any } | null> {
+): Promise<RepoTarget[]> {
   const apps = await loadAppConfigs()
   const engines = await loadEngineConfigs()
+  const targets: RepoTarget[] = []
 
   // Check apps first
   for (const [name, config] of apps) {
@@ -59,7 +84,7 @@ async function findAppByRepo(
       .replace(/\.git$/, '')
 
     if (repoFromUrl === repoFullName || repoFromUrl.endsWith(`/${repoName}`)) {
-      return { type: 'app', name, config }
+      targets.push({ type: 'app', name, config })
     }
   }
 
@@ -72,13 +97,30 @@ async function findAppByRepo(
           .replace(/\.git$/, '')
 
         if (repoFromUrl === repoFullName || repoFromUrl.endsWith(`/${repoName}`)) {
-          return { type: 'module', name: moduleName, config: moduleConfig, engine }
+          targets.push({ type: 'module', name: moduleName, config: moduleConfig, engine })
         }
       }
     }
   }
 
-  return null
+  return targets
+}
+
+// Files touched by a push (null when the payload does not list them all)
+// GitHub includes at most 20 commits, and none for some pushes (e.g. new branches).
+function getChangedFiles(payload: any): string[] | null {
+  const commits = payload.commits
+  if (!Array.isArray(commits) || commits.length === 0 || commits.length >= 20) {
+    return null
+  }
+
+  const files = new Set<string>()
+  for (const commit of commits) {
+    for (const file of [...commit.added ?? [], ...commit.modified ?? [], ...commit.removed ?? []]) {
+      files.add(file)
+    }
+  }
+  return [...files]
 }
 
 // Webhook handler middleware
@@ -118,43 +160,58 @@ export function createWebhookHandler(secret: string) {
 
     log.info(`Push to ${repoFullName} (${branch})`)
 
-    // Find matching app or module
-    const match = await findAppByRepo(repoFullName, repoName)
-    if (!match) {
+    // Find matching apps and modules
+    const matches = await findTargetsByRepo(repoFullName, repoName)
+    if (matches.length === 0) {
       log.dim(`No config found for ${repoFullName}`)
       res.status(200).send('Repository not configured')
       return
     }
 
-    // Check branch matches
-    const expectedBranch = match.config.branch || 'main'
-    if (branch !== expectedBranch) {
-      log.dim(`Ignoring push to ${branch}, expected ${expectedBranch}`)
-      res.status(200).send(`Branch ${branch} ignored`)
+    // Keep those tracking the pushed branch whose watched paths changed
+    const changedFiles = getChangedFiles(req.body)
+    const targets = matches.filter(match => {
+      const expectedBranch = match.config.branch || 'main'
+      if (branch !== expectedBranch) {
+        log.dim(`Ignoring push to ${branch} for ${match.name}, expected ${expectedBranch}`)
+        return false
+      }
+      if (match.type === 'app' && changedFiles && !hasWatchedChanges(match.config, changedFiles)) {
+        log.dim(`No watched paths changed for ${match.name}, skipping`)
+        return false
+      }
+      return true
+    })
+
+    if (targets.length === 0) {
+      res.status(200).send('No apps affected by this push')
       return
     }
 
     // Respond immediately
-    res.status(200).send('Deployment started')
-
-    // Queue deployment in background
-    const deployName = match.type === 'module'
-      ? `${match.engine.name}/${match.name}`
-      : match.name
-
-    queueDeployment(deployName, async () => {
-      try {
-        if (match.type === 'app') {
-          await deployApp(match.config)
-          log.success(`Deployed ${match.name}`)
-        } else {
-          await deployModule(match.engine, match.name, match.config)
-          log.success(`Deployed module ${match.engine.name}/${match.name}`)
+    const names = targets.map(match => match.name)
+    res.status(200).send(`Deployment started for ${names.join(', ')}`)
+
+    // Queue deployments in background
+    for (const match of targets) {
+      const deployName = match.type === 'module'
+        ? `${match.engine.name}/${match.name}`
+        : match.name
+
+      queueDeployment(deployName, async () => {
+        try {
+          if (match.type === 'app') {
+            await deployApp(match.config, { wait: true })
+            log.success(`Deployed ${match.name}`)
+          } else {
+            await deployModule(match.engine, match.name, match.config, { wait: true })
+            log.success(`Deployed module ${match.engine.name}/${match.name}`)
+          }
+        } catch (error) {
+          log.error(`Deployment failed for ${deployName}: ${error}`)
         }
-      } catch (error) {
-        log.error(`Deployment failed for ${deployName}: ${error}`)
-      }
-    })
+      })
+    }
   }
 }
 
@@ -168,11 +225,29 @@ export function healthHandler(req: Request, res: Response): void {
 }
 
 // Manual deploy handler
-export function createManualDeployHandler() {
+// Accepts an optional branch, tag or commit as `ref` in the JSON body or query string.
+// Deploying anything but the configured branch needs the webhook secret as a bearer token.
+export function createManualDeployHandler(secret: string) {
   return async (req: Request, res: Response): Promise<void> => {
     const { name } = req.params
+    const ref = typeof req.body?.ref === 'string' ? req.body.ref
+      : typeof req.query.ref === 'string' ? req.query.ref
+        : undefined
+
+    if (ref !== undefined) {
+      if (!hasBearerToken(req, secret)) {
+        res.status(401).send('Unauthorized')
+        return
+      }
+      if (!await isValidRef(ref)) {
+        res.status(400).send(`Invalid ref: ${ref}`)
+        return
+      }
+    }
 
-    log.info(`Manual deployment triggered for ${name}`)
+    log.info(ref
+      ? `Manual deployment triggered for ${name} at ${ref}`
+      : `Manual deployment triggered for ${name}`)
 
     const apps = await loadAppConfigs()
     const config = apps.get(name)
@@ -186,7 +261,7 @@ export function createManualDeployHandler() {
 
     queueDeployment(name, async () => {
       try {
-        await deployApp(config)
+        await deployApp(config, { ref, wait: true })
         log.success(`Deployed ${name}`)
       } catch (error) {
         log.error(`Deployment failed for ${name}: ${error}`)
@@ -194,3 +269,109 @@ export function createManualDeployHandler() {
     })
   }
 }
+
+// Artifact upload handler
+// The body is the raw .tar.gz. X-Shyp-Signature must be "sha256=" + the HMAC-SHA256
+// of the body keyed with the webhook secret, and X-Artifact-Sha256 its checksum.
+// Bodies over `maxBytes` are rejected with 413.
+export function createArtifactUploadHandler(secret: string, maxBytes: number) {
+  return async (req: Request, res: Response): Promise<void> => {
+    const { name } = req.params
+
+    if (!secret) {
+      res.status(401).send('Unauthorized')
+      return
+    }
+
+    const apps = await loadAppConfigs()
+    const config = apps.get(name)
+    if (!config) {
+      res.status(404).send(`App not found: ${name}`)
+      return
+    }
+
+    const signature = req.headers['x-shyp-signature'] as string | undefined
+    if (!signature) {
+      res.status(401).send('Unauthorized')
+      return
+    }
+
+    const expected = req.headers['x-artifact-sha256'] as string | undefined
+    if (!expected) {
+      res.status(400).send('Missing X-Artifact-Sha256 header')
+      return
+    }
+
+    if (Number(req.headers['content-length']) > maxBytes) {
+      res.status(413).send(`Artifact is larger than ${maxBytes} bytes`)
+      return
+    }
+
+    let upload: Awaited<ReturnType<typeof saveUploadedArtifact>>
+    try {
+      upload = await saveUploadedArtifact(name, req, secret, maxBytes)
+    } catch (error) {
+      if (error instanceof ArtifactTooLargeError) {
+        res.status(413).send(error.message)
+      } else {
+        log.error(`Artifact upload failed for ${name}: ${error}`)
+        if (!res.headersSent) res.status(400).send('Upload failed')
+      }
+      return
+    }
+
+    if (!signaturesMatch(upload.signature, signature)) {
+      await rm(upload.file, { force: true })
+      log.error(`Invalid artifact signature for ${name}`)
+      res.status(401).send('Unauthorized')
+      return
+    }
+
+    if (upload.sha256 !== expected.toLowerCase()) {
+      await rm(upload.file, { force: true })
+      res.status(400).send(`Checksum mismatch: expected ${expected}, got ${upload.sha256}`)
+      return
+    }
+
+    log.info(`Artifact deployment triggered for ${name} (sha256 ${upload.sha256})`)
+    res.status(202).send(`Deployment started for ${name}`)
+
+    queueDeployment(name, async () => {
+      try {
+        const result = await deployApp(config, { artifact: upload, wait: true })
+        if (result.success) {
+          log.success(`Deployed ${name} from artifact`)
+        } else {
+          log.error(`Deployment failed for ${name}: ${result.error}`)
+        }
+      } catch (error) {
+        log.error(`Deployment failed for ${name}: ${error}`)
+      } finally {
+        await rm(upload.file, { force: true })
+      }
+    })
+  }
+}
+
+// Cancel deploy handler
+// The running deploy stops on its own and restores the previous release.
+// Needs the webhook secret as a bearer token.
+export function createCancelDeployHandler(secret: string) {
+  return async (req: Request, res: Response): Promise<void> => {
+    const { name } = req.params
+
+    if (!hasBearerToken(req, secret)) {
+      res.status(401).send('Unauthorized')
+      return
+    }
+
+    const pid = await requestCancel(name)
+    if (!pid) {
+      res.status(404).send(`No deploy in progress for ${name}`)
+      return
+    }
+
+    log.info(`Cancelling deployment for ${name} (PID ${pid})`)
+    res.status(202).send(`Cancelling deployment for ${name}`)
+  }
+}
@@ -11,11 +11,14 @@ export const ENGINES_DIR = join(SHYP_DIR, 'engines')
 export const SECRETS_DIR = join(SHYP_DIR, 'secrets')
 export const TEMPLATES_DIR = join(SHYP_DIR, 'templates')
 export const STATE_DIR = join(SHYP_DIR, 'state')
+export const ARTIFACTS_DIR = join(SHYP_DIR, 'artifacts') // Uploads waiting to be deployed
+export const NODE_VERSIONS_DIR = join(SHYP_DIR, 'node') // Managed Node.js installs, one dir per version
 
 // State files
 export const PORTS_FILE = join(STATE_DIR, 'ports.json')
 export const DEPLOYMENTS_FILE = join(STATE_DIR, 'deployments.json')
 export const HEALTH_FILE = join(STATE_DIR, 'health.json')
+export const LOCKS_DIR = join(STATE_DIR, 'locks')
 
 // Log paths
 export const LOG_DIR = '/var/log/shyp'